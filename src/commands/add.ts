@@ -5,11 +5,19 @@ import { checkbox } from '@inquirer/prompts';
 import * as config from '../lib/config.js';
 import * as localRegistry from '../lib/local-registry/index.js';
 import * as fs from '../lib/fs.js';
+import * as api from '../lib/api.js';
+import * as resolver from '../lib/resolver.js';
+import * as dependencies from '../lib/dependencies.js';
+import * as packs from '../lib/packs.js';
 import type { SkillEntry } from '../types.js';
+import { isCloudSource } from '../types.js';
 
 export const addCommand = new Command('add')
   .description('Add one or more skills to the project')
-  .argument('[slugs...]', 'Skill slugs to add')
+  .argument('[slugs...]', 'Skill slugs to add, optionally with a version constraint (e.g. my-skill@^2.1.0), or packs (pack:<name>)')
+  .option('-v, --constraint <constraint>', 'Version constraint for all given slugs (e.g. ^1.0.0, >=2.0.0)')
+  .option('-s, --source <name>', 'Source to add the skills or packs from (defaults to the local source)')
+  .option('--no-deps', 'Add only the given skills, not the skills they require')
   .option('--no-sync', 'Skip automatic sync after adding')
   .action(async (slugs: string[], options) => {
     try {
@@ -63,27 +71,120 @@ export const addCommand = new Command('add')
       }
 
       const addedSkills: string[] = [];
+      const changedEntries: SkillEntry[] = []; // Added or updated, to follow their `requires`
       let needsSync = false;
 
-      for (const slug of slugs) {
-        const spinner = ora(`Adding ${slug}...`).start();
+      // Resolve the source new entries are added from
+      const source = options.source
+        ? config.getSource(options.source)
+        : config.getDefaultSource();
+      if (options.source && !source) {
+        console.log(chalk.red(`Error: Source '${options.source}' not found in .skills.yaml.`));
+        process.exit(1);
+      }
+
+      // Expand `pack:<name>` into the pack's skills, remembering which pack each came from
+      const specs: string[] = [];
+      const packOf = new Map<string, string>();
+      const packNames: string[] = [];
+      const directSlugs: string[] = [];
+      for (const spec of slugs) {
+        if (!packs.isPackSpec(spec)) {
+          specs.push(spec);
+          directSlugs.push(dependencies.parseRequirement(spec).slug);
+          continue;
+        }
+
+        const name = packs.parsePackSpec(spec);
+        const pack = await packs.getPack(source, name);
+        if (!pack) {
+          console.log(chalk.yellow(`Pack '${name}' not found in the ${packs.describeSource(source)}.`));
+          console.log(`Run ${chalk.cyan('skill pack list')} to see the available packs.`);
+          continue;
+        }
+
+        packNames.push(name);
+        console.log(`Adding pack ${chalk.cyan(name)} ${chalk.gray(`(${pack.skills.length} skill(s))`)}`);
+        for (const skill of pack.skills) {
+          if (packOf.has(skill.slug)) continue;
+          specs.push(dependencies.formatRequirement(skill));
+          packOf.set(skill.slug, name);
+        }
+      }
+
+      const failed = new Set<string>(); // Slugs that couldn't be added
+      for (const spec of specs) {
+        const parsed = dependencies.parseRequirement(spec);
+        const slug = parsed.slug;
+        const pack = packOf.get(slug);
+        // A pack's own constraints apply to its skills, not --constraint
+        const version: string | undefined = parsed.version || (pack ? undefined : options.constraint);
+        const label = version ? `${slug}@${version}` : slug;
+        const spinner = ora(`Adding ${label}...`).start();
 
         try {
-          // Check if skill exists in local registry
-          if (!localRegistry.skillExists(slug)) {
-            spinner.fail(`Skill '${slug}' not found in local cache.`);
-            console.log('');
-            console.log('To add this skill, either:');
-            console.log(`  ${chalk.cyan(`skill new ${slug}`)}           Create it locally`);
-            console.log(`  ${chalk.cyan(`skill import <path>`)}        Import from a file`);
-            continue;
+          let resolvedVersion: string | undefined;
+
+          if (source && isCloudSource(source)) {
+            // Verify the skill (and requested version) exists in the cloud registry
+            if (version) {
+              resolvedVersion = (await resolver.resolveCloudVersion(source, slug, version)).version;
+            } else {
+              await api.getSkill(source.registry, slug);
+            }
+          } else {
+            // Check if skill exists in local registry
+            if (!localRegistry.skillExists(slug)) {
+              spinner.fail(`Skill '${slug}' not found in local cache.`);
+              failed.add(slug);
+              console.log('');
+              console.log('To add this skill, either:');
+              console.log(`  ${chalk.cyan(`skill new ${slug}`)}           Create it locally`);
+              console.log(`  ${chalk.cyan(`skill import <path>`)}        Import from a file`);
+              continue;
+            }
+
+            if (version) {
+              resolvedVersion = resolver.resolveLocalVersion(slug, version).version;
+            }
           }
 
+          const entry: SkillEntry = {
+            slug,
+            ...(options.source ? { source: options.source } : {}),
+            ...(version ? { version } : {}),
+            ...(pack ? { pack } : {}),
+          };
+          const resolvedText = resolvedVersion ? chalk.gray(` (resolves to ${resolvedVersion})`) : '';
+
           // Check if already in config
           const existing = skillsConfig.skills.find((s) => s.slug === slug);
           if (existing) {
-            // Still need to sync if the skill is missing from the install path
-            if (!fs.skillExists(slug)) {
+            const existingSource = existing.source || config.getDefaultSource()?.name;
+            if (options.source && existingSource !== options.source) {
+              spinner.warn(
+                `${slug} already added from source '${existingSource}'. Run ${chalk.cyan(`skill remove ${slug}`)} first.`
+              );
+              failed.add(slug);
+            } else if (pack && existing.pack !== pack) {
+              // Keep entries added directly or by another pack as they are
+              spinner.warn(`${slug} already added to project`);
+            } else if (existing.version !== version) {
+              // Update the version constraint in place (adding it directly now)
+              const { version: _previous, dependency: _dependency, ...rest } = existing;
+              const updated = version ? { ...rest, version } : rest;
+              config.addSkill(updated);
+              changedEntries.push(updated);
+              spinner.succeed(`Updated ${chalk.cyan(label)}${resolvedText}`);
+              needsSync = true;
+            } else if (existing.dependency) {
+              // Added by `requires` before; keep it even once nothing requires it
+              const { dependency: _dependency, ...rest } = existing;
+              config.addSkill(rest);
+              spinner.succeed(`${slug} is now added directly ${chalk.gray('(was required by another skill)')}`);
+              needsSync = needsSync || !fs.skillExists(slug);
+            } else if (!fs.skillExists(slug)) {
+              // Still need to sync if the skill is missing from the install path
               spinner.succeed(`${slug} already in config, will re-install`);
               needsSync = true;
             } else {
@@ -93,13 +194,53 @@ export const addCommand = new Command('add')
           }
 
           // Add to config
-          const entry: SkillEntry = { slug };
           config.addSkill(entry);
           addedSkills.push(slug);
+          changedEntries.push(entry);
 
-          spinner.succeed(`Added ${chalk.cyan(slug)}`);
+          spinner.succeed(`Added ${chalk.cyan(label)}${resolvedText}`);
         } catch (error) {
           spinner.fail(error instanceof Error ? error.message : String(error));
+          failed.add(slug);
+        }
+      }
+
+      // Record packs once at least one of their skills was added
+      const addedPacks = packNames.filter((name) =>
+        [...packOf].some(([slug, pack]) => pack === name && !failed.has(slug))
+      );
+      for (const name of addedPacks) {
+        config.addPack({ name, ...(options.source ? { source: options.source } : {}) });
+      }
+
+      // Fail if none of the skills or packs asked for could be added
+      const addedDirectly = directSlugs.filter((slug) => !failed.has(slug));
+      if (addedPacks.length === 0 && addedDirectly.length === 0) {
+        process.exit(1);
+      }
+
+      // Add the skills they require, transitively
+      if (changedEntries.length > 0 && options.deps !== false) {
+        const spinner = ora('Resolving required skills...').start();
+        const plan = await dependencies.planDependencies(changedEntries, config.readConfig().skills);
+
+        if (plan.dependencies.length > 0) {
+          spinner.succeed(`Added ${plan.dependencies.length} required skill(s)`);
+          for (const { entry, requiredBy, version } of plan.dependencies) {
+            config.addSkill(entry);
+            addedSkills.push(entry.slug);
+            const resolvedText = version ? chalk.gray(` (${version})`) : '';
+            console.log(`  ${chalk.cyan(dependencies.formatRequirement(entry))}${resolvedText} ${chalk.gray(`required by ${requiredBy}`)}`);
+          }
+        } else {
+          spinner.stop();
+        }
+
+        if (plan.problems.length > 0) {
+          console.log(chalk.yellow('Problems with required skills:'));
+          for (const problem of plan.problems) {
+            console.log(chalk.yellow(`  ⚠ ${problem}`));
+          }
         }
       }
 
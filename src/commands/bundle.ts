@@ -4,6 +4,16 @@ import * as path from 'path';
 import chalk from 'chalk';
 import * as config from '../lib/config.js';
 import * as fs from '../lib/fs.js';
+import { isBinary } from '../lib/skill-files.js';
+
+/**
+ * Pick a code fence longer than any backtick run in the content
+ */
+function fenceFor(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length));
+  return '`'.repeat(longest + 1);
+}
+
 export const bundleCommand = new Command('bundle')
   .description('Bundle all or selected skills into a single markdown file')
   .argument('[slugs...]', 'Skill slugs to bundle (optional, bundles all if not provided)')
@@ -39,6 +49,27 @@ export const bundleCommand = new Command('bundle')
         bundleLines.push(content.trim());
         bundleLines.push('');
         bundleLines.push('');
+
+        // Add supporting files as fenced blocks after SKILL.md
+        for (const [filePath, fileContent] of Object.entries(fs.readSkillFiles(slug))) {
+          if (isBinary(fileContent)) {
+            bundleLines.push(`<!-- === FILE: ${slug}/${filePath} (binary, omitted) === -->`);
+            bundleLines.push('');
+            continue;
+          }
+
+          const text = fileContent.toString('utf-8');
+          const fence = fenceFor(text);
+          const language = path.extname(filePath).slice(1);
+
+          bundleLines.push(`<!-- === FILE: ${slug}/${filePath} === -->`);
+          bundleLines.push('');
+          bundleLines.push(`${fence}${language}`);
+          bundleLines.push(text.replace(/\n$/, ''));
+          bundleLines.push(fence);
+          bundleLines.push('');
+          bundleLines.push('');
+        }
       }
 
       // Write bundle file
@@ -0,0 +1,374 @@
+import { Command } from 'commander';
+import * as nodeFs from 'fs';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as lockfile from '../lib/lockfile.js';
+import * as projects from '../lib/projects.js';
+import * as localRegistry from '../lib/local-registry/index.js';
+import { collectSkillFiles } from '../lib/skill-files.js';
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Object hashes referenced by a project's lockfile and installed skills.
+ * Composed and overridden skills are installed from content that only the
+ * project references, and overrides need the content they were applied to.
+ */
+function getRefsInProject(root: string): string[] {
+  const cwd = process.cwd();
+  process.chdir(root);
+  try {
+    const refs: string[] = [];
+
+    for (const locked of lockfile.readLockfile()?.skills || []) {
+      refs.push(locked.sha256, ...Object.values(locked.files || {}));
+    }
+
+    for (const slug of fs.listLocalSkills()) {
+      const meta = fs.readSkillMeta(slug);
+      if (meta?.sha256) {
+        refs.push(meta.sha256, ...Object.values(meta.files || {}));
+      }
+      if (meta?.override_base) {
+        refs.push(meta.override_base);
+      }
+    }
+
+    return refs;
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
+/**
+ * Object hashes referenced by the current project and every known project,
+ * which may point at content no longer referenced by the registry itself
+ */
+function getProjectRefs(): string[] {
+  const projectRoot = config.findProjectRoot();
+  const roots = new Set([...(projectRoot ? [projectRoot] : []), ...projects.listKnownProjects()]);
+
+  const refs: string[] = [];
+  for (const root of roots) {
+    refs.push(...getRefsInProject(root));
+  }
+
+  return refs;
+}
+
+export const cacheCommand = new Command('cache')
+  .description('Manage the local registry object cache');
+
+// Garbage collect unreferenced objects
+cacheCommand
+  .command('gc')
+  .description('Remove objects no skill, revision or project lockfile references')
+  .option('--dry-run', 'Show what would be removed without deleting anything')
+  .action(async (options) => {
+    try {
+      if (!localRegistry.registryExists()) {
+        console.log(chalk.yellow('No local registry found. Nothing to clean up.'));
+        return;
+      }
+
+      const spinner = ora(options.dryRun ? 'Scanning object cache...' : 'Collecting garbage...').start();
+      const result = localRegistry.collectGarbage({
+        extraRefs: getProjectRefs(),
+        dryRun: options.dryRun,
+      });
+      spinner.stop();
+
+      if (result.removed.length === 0 && result.tempFiles === 0) {
+        console.log(chalk.green(`Nothing to clean up (${result.kept} objects in use).`));
+        return;
+      }
+
+      const verb = options.dryRun ? 'Would remove' : 'Removed';
+
+      if (options.dryRun) {
+        console.log(chalk.cyan('Dry run - unreferenced objects:'));
+        for (const sha256 of result.removed) {
+          console.log(`  ${sha256.substring(0, 12)}  ${chalk.gray(formatBytes(localRegistry.getObjectSize(sha256)))}`);
+        }
+        console.log('');
+      }
+
+      console.log(
+        `${verb} ${chalk.cyan(result.removed.length)} unreferenced object(s), freeing ${chalk.cyan(formatBytes(result.bytes))}.`
+      );
+      if (result.tempFiles > 0) {
+        console.log(`${verb} ${chalk.cyan(result.tempFiles)} stale temp file(s).`);
+      }
+      console.log(chalk.gray(`${result.kept} object(s) still referenced.`));
+
+      console.log('');
+      console.log(
+        chalk.gray('Note: projects that never ran `skill sync` here re-fetch cloud skills on their next sync.')
+      );
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Describe the skill revisions that reference an object
+ */
+function describeReferences(references: localRegistry.ObjectReference[]): string {
+  const bySlug = new Map<string, string[]>();
+
+  for (const reference of references) {
+    const labels = bySlug.get(reference.slug) || [];
+    const revision = reference.current ? 'current' : `#${reference.revision}`;
+    const label = reference.path ? `${revision} ${reference.path}` : revision;
+    if (!labels.includes(label)) {
+      labels.push(label);
+    }
+    bySlug.set(reference.slug, labels);
+  }
+
+  return [...bySlug.entries()]
+    .map(([slug, labels]) => `${chalk.cyan(slug)} ${chalk.gray(`(${labels.join(', ')})`)}`)
+    .join(', ');
+}
+
+// Verify object integrity
+cacheCommand
+  .command('verify')
+  .description('Check every object against its hash and report affected skills')
+  .action(async () => {
+    try {
+      if (!localRegistry.registryExists()) {
+        console.log(chalk.yellow('No local registry found.'));
+        return;
+      }
+
+      const spinner = ora('Verifying object cache...').start();
+      const corrupted = localRegistry.verifyAllObjects();
+      const references = localRegistry.collectObjectReferences();
+      const missing = [...references.keys()].filter((sha256) => !localRegistry.objectExists(sha256));
+      spinner.stop();
+
+      const total = localRegistry.listObjects().length;
+
+      if (corrupted.length === 0 && missing.length === 0) {
+        console.log(chalk.green(`✓ All ${total} objects verified.`));
+        return;
+      }
+
+      if (corrupted.length > 0) {
+        console.log(chalk.red(`${corrupted.length} corrupted object(s):`));
+        for (const sha256 of corrupted) {
+          const refs = references.get(sha256);
+          const usedBy = refs ? `used by ${describeReferences(refs)}` : chalk.gray('unreferenced');
+          console.log(`  ${chalk.red('✗')} ${sha256.substring(0, 12)}  ${usedBy}`);
+        }
+        console.log('');
+      }
+
+      if (missing.length > 0) {
+        console.log(chalk.red(`${missing.length} missing object(s):`));
+        for (const sha256 of missing) {
+          console.log(`  ${chalk.red('✗')} ${sha256.substring(0, 12)}  used by ${describeReferences(references.get(sha256)!)}`);
+        }
+        console.log('');
+      }
+
+      console.log(`Run ${chalk.cyan('skill cache repair')} to rebuild objects from SKILL.md working copies.`);
+      process.exit(1);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Repair objects from working copies
+cacheCommand
+  .command('repair')
+  .description('Rebuild corrupted or missing objects from SKILL.md working copies')
+  .option('--adopt', 'Save working copies that no longer match their recorded hash as a new revision')
+  .action(async (options) => {
+    try {
+      if (!localRegistry.registryExists()) {
+        console.log(chalk.yellow('No local registry found.'));
+        return;
+      }
+
+      const spinner = ora('Checking object cache...').start();
+      const corrupted = new Set(localRegistry.verifyAllObjects());
+      const references = localRegistry.collectObjectReferences();
+      const broken = [...references.keys()].filter(
+        (sha256) => corrupted.has(sha256) || !localRegistry.objectExists(sha256)
+      );
+
+      // Index working copies (SKILL.md and supporting files) by the hash of their content
+      const workingCopies = new Map<string, Buffer>();
+      for (const skill of localRegistry.listSkills()) {
+        const skillFilePath = localRegistry.getSkillFilePath(skill.slug);
+        if (nodeFs.existsSync(skillFilePath)) {
+          const content = nodeFs.readFileSync(skillFilePath);
+          workingCopies.set(localRegistry.computeHash(content), content);
+        }
+        for (const content of Object.values(collectSkillFiles(localRegistry.getSkillFilesDir(skill.slug)))) {
+          workingCopies.set(localRegistry.computeHash(content), content);
+        }
+      }
+
+      const repaired: string[] = [];
+      const unrepairable: string[] = [];
+      const adopted: string[] = [];
+
+      for (const sha256 of broken) {
+        const content = workingCopies.get(sha256);
+        if (content === undefined) {
+          unrepairable.push(sha256);
+          continue;
+        }
+
+        if (corrupted.has(sha256)) {
+          localRegistry.deleteObject(sha256);
+        }
+        localRegistry.writeObject(content);
+        repaired.push(sha256);
+      }
+
+      // Skills whose current content can't be rebuilt, but whose working copy was edited
+      if (options.adopt) {
+        for (const sha256 of [...unrepairable]) {
+          const current = references.get(sha256)!.filter((r) => r.current);
+          for (const { slug } of current) {
+            const meta = localRegistry.readMeta(slug);
+            const skillFilePath = localRegistry.getSkillFilePath(slug);
+            if (!meta || adopted.includes(slug) || !nodeFs.existsSync(skillFilePath)) continue;
+
+            localRegistry.putSkill({
+              slug,
+              content: nodeFs.readFileSync(skillFilePath, 'utf-8'),
+              files: collectSkillFiles(localRegistry.getSkillFilesDir(slug)),
+              meta: {
+                name: meta.name,
+                description: meta.description,
+                tags: meta.tags,
+                compat: meta.compat,
+              },
+              message: `Recovered from working copy (${sha256.substring(0, 12)} was unreadable)`,
+            });
+            adopted.push(slug);
+          }
+        }
+      }
+      spinner.stop();
+
+      if (broken.length === 0) {
+        console.log(chalk.green('✓ Nothing to repair.'));
+        return;
+      }
+
+      if (repaired.length > 0) {
+        console.log(chalk.green(`✓ Rebuilt ${repaired.length} object(s) from working copies:`));
+        for (const sha256 of repaired) {
+          console.log(`  ${sha256.substring(0, 12)}  ${describeReferences(references.get(sha256)!)}`);
+        }
+      }
+
+      if (adopted.length > 0) {
+        console.log(chalk.green(`✓ Saved ${adopted.length} working copy(ies) as a new revision:`));
+        for (const slug of adopted) {
+          console.log(`  ${chalk.cyan(slug)}`);
+        }
+      }
+
+      const remaining = unrepairable.filter(
+        (sha256) => !references.get(sha256)!.some((r) => r.current && adopted.includes(r.slug))
+      );
+      if (remaining.length > 0) {
+        console.log('');
+        console.log(chalk.yellow(`⚠ ${remaining.length} object(s) could not be rebuilt (no matching working copy):`));
+        for (const sha256 of remaining) {
+          console.log(`  ${sha256.substring(0, 12)}  ${describeReferences(references.get(sha256)!)}`);
+        }
+        if (!options.adopt && remaining.some((sha256) => references.get(sha256)!.some((r) => r.current))) {
+          console.log('');
+          console.log(
+            `Run ${chalk.cyan('skill cache repair --adopt')} to save edited working copies as new revisions.`
+          );
+        }
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Show cache statistics
+cacheCommand
+  .command('stats')
+  .description('Show local registry and object cache statistics')
+  .action(async () => {
+    try {
+      if (!localRegistry.registryExists()) {
+        console.log(chalk.yellow('No local registry found.'));
+        return;
+      }
+
+      const skills = localRegistry.listSkills();
+      const objects = localRegistry.listObjects();
+      const reachable = localRegistry.collectReachableObjects();
+      for (const sha256 of getProjectRefs()) {
+        reachable.add(sha256);
+      }
+
+      let totalBytes = 0;
+      let unreferenced = 0;
+      let unreferencedBytes = 0;
+      for (const sha256 of objects) {
+        const size = localRegistry.getObjectSize(sha256);
+        totalBytes += size;
+        if (!reachable.has(sha256)) {
+          unreferenced++;
+          unreferencedBytes += size;
+        }
+      }
+
+      const revisions = skills.reduce(
+        (count, skill) => count + localRegistry.getSkillHistory(skill.slug).length,
+        0
+      );
+      const tempFiles = localRegistry.cleanupTempFiles({ dryRun: true });
+
+      console.log(chalk.bold('Local Registry:'));
+      console.log('');
+      console.log(`  ${chalk.bold('Path:')}          ${localRegistry.getRoot()}`);
+      console.log(`  ${chalk.bold('Skills:')}        ${skills.length}`);
+      console.log(`  ${chalk.bold('Revisions:')}     ${revisions}`);
+      console.log(`  ${chalk.bold('Objects:')}       ${objects.length} (${formatBytes(totalBytes)})`);
+      console.log(
+        `  ${chalk.bold('Unreferenced:')}  ${unreferenced} (${formatBytes(unreferencedBytes)})` +
+          (unreferenced > 0 ? chalk.gray(` — run ${chalk.cyan('skill cache gc')} to remove`) : '')
+      );
+      if (tempFiles > 0) {
+        console.log(`  ${chalk.bold('Stale temp:')}    ${tempFiles}`);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Print the registry location
+cacheCommand
+  .command('path')
+  .description('Print the local registry directory')
+  .action(() => {
+    console.log(localRegistry.getRoot());
+  });
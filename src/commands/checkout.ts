@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as localRegistry from '../lib/local-registry/index.js';
+import { sameManifest } from '../lib/skill-files.js';
+
+export const checkoutCommand = new Command('checkout')
+  .description('Restore a previous revision of a skill in the local registry')
+  .argument('<slug>', 'Skill slug')
+  .argument('<revision>', 'Revision number (from skill history) or sha256 prefix')
+  .option('-m, --message <message>', 'Message to record in history')
+  .action(async (slug: string, ref: string, options) => {
+    try {
+      if (!localRegistry.skillExists(slug)) {
+        console.log(chalk.red(`Error: Skill '${slug}' not found in local registry.`));
+        process.exit(1);
+      }
+
+      const found = localRegistry.findRevision(slug, ref);
+      if (!found) {
+        console.log(chalk.red(`Error: Revision '${ref}' not found for '${slug}'.`));
+        console.log(`Run ${chalk.cyan(`skill history ${slug}`)} to list revisions.`);
+        process.exit(1);
+      }
+
+      const { revision, entry } = found;
+      const meta = localRegistry.readMeta(slug);
+      if (!meta) {
+        console.log(chalk.red(`Error: Could not read skill '${slug}'.`));
+        process.exit(1);
+      }
+
+      if (meta.sha256 === entry.sha256 && sameManifest(meta.files, entry.files)) {
+        console.log(chalk.yellow(`'${slug}' is already at revision #${revision}.`));
+        return;
+      }
+
+      const content = localRegistry.readObject(entry.sha256);
+      const files = localRegistry.readSkillFiles(entry.files);
+      if (content === null || files === null) {
+        console.log(
+          chalk.red(`Error: Content for revision #${revision} is missing or corrupted in the object store.`)
+        );
+        process.exit(1);
+      }
+
+      const spinner = ora(`Restoring ${slug} to revision #${revision}...`).start();
+
+      localRegistry.putSkill({
+        slug,
+        content,
+        files,
+        meta: {
+          name: meta.name,
+          description: meta.description,
+          tags: meta.tags,
+          compat: meta.compat,
+        },
+        message: options.message || `Checked out revision #${revision} (${entry.sha256.substring(0, 12)})`,
+      });
+
+      spinner.succeed(`Restored ${chalk.cyan(slug)} to revision #${revision}`);
+
+      console.log('');
+      console.log('Next steps:');
+      console.log(`  ${chalk.cyan('skill sync')}             Update projects using this skill`);
+      console.log(`  ${chalk.cyan(`skill history ${slug}`)}  View revision history`);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
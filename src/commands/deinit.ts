@@ -0,0 +1,118 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as nodeFs from 'fs';
+import * as path from 'path';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as lockfile from '../lib/lockfile.js';
+import * as output from '../lib/output.js';
+import * as targets from '../lib/targets.js';
+
+/**
+ * What deinit removes, as paths relative to the project root
+ */
+interface DeinitPlan {
+  skills: string[]; // Installed skill directories
+  integrations: string[]; // Agent files, sections, links and the skills index
+  gitignore: boolean; // The install path (and unlisted skills) blocks in .gitignore
+  config: string[]; // .skills.yaml and .skills.lock (with --remove-config)
+}
+
+export const deinitCommand = new Command('deinit')
+  .description('Remove Overskill from the current project (installed skills, agent integrations, .gitignore entry)')
+  .option('--dry-run', 'Show what would be removed without deleting anything')
+  .option('--remove-config', 'Also delete .skills.yaml and .skills.lock')
+  .option('-f, --force', 'Remove skills even if they have unsaved local edits')
+  .action(async (options) => {
+    try {
+      if (!config.configExists()) {
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.');
+      }
+
+      const dryRun = !!options.dryRun;
+      const projectRoot = config.findProjectRoot() || process.cwd();
+      const relative = (p: string) => path.relative(projectRoot, p).split(path.sep).join('/');
+      const skillsConfig = config.readConfig();
+      const slugs = fs.listSyncedSkillDirs();
+
+      // Refuse to throw away edits that were never saved to the registry
+      const edited = slugs.filter((slug) => fs.isSkillModified(slug));
+      if (edited.length > 0 && !options.force && !dryRun) {
+        output.fail('CONFLICT', `${edited.length} skill(s) have unsaved local edits: ${edited.join(', ')}`, {
+          hints: [
+            `Run ${chalk.cyan('skill save')} to keep them, or pass ${chalk.cyan('--force')} to discard them.`,
+          ],
+          data: { edited },
+        });
+      }
+
+      const plan: DeinitPlan = {
+        skills: slugs.map((slug) => relative(fs.getSkillDir(slug))),
+        integrations: targets.removeIntegrations({ dryRun }),
+        gitignore: [skillsConfig.install_path, fs.UNLISTED_SKILLS_PATH]
+          .map((entry) => fs.removeGitignoreEntry(entry, { dryRun }))
+          .some(Boolean),
+        config: [],
+      };
+
+      if (!dryRun) {
+        for (const slug of slugs) {
+          fs.deleteSkill(slug);
+        }
+        fs.removeEmptyDirs(config.getInstallPath());
+      }
+
+      if (options.removeConfig) {
+        for (const file of [config.getConfigPath(), lockfile.getLockfilePath()]) {
+          if (!nodeFs.existsSync(file)) continue;
+          if (!dryRun) nodeFs.unlinkSync(file);
+          plan.config.push(relative(file));
+        }
+      }
+
+      if (output.isJsonMode()) {
+        output.printJson({ dryRun, edited, ...plan });
+        return;
+      }
+
+      const total = plan.skills.length + plan.integrations.length + plan.config.length + (plan.gitignore ? 1 : 0);
+      if (total === 0) {
+        console.log(chalk.yellow('Nothing to remove.'));
+        return;
+      }
+
+      console.log(dryRun ? chalk.bold('Would remove:') : chalk.green('Removed Overskill from this project:'));
+
+      const section = (title: string, paths: string[]) => {
+        if (paths.length === 0) return;
+        console.log('');
+        console.log(`  ${chalk.bold(title)}`);
+        for (const p of paths) {
+          console.log(`    ${chalk.cyan(p)}`);
+        }
+      };
+
+      section('Installed skills', plan.skills);
+      section('Agent integrations', plan.integrations);
+      section('Other', [
+        ...(plan.gitignore ? [`.gitignore (${skillsConfig.install_path}/ entry)`] : []),
+        ...plan.config,
+      ]);
+
+      if (dryRun && edited.length > 0) {
+        console.log('');
+        console.log(chalk.yellow(`⚠ Unsaved local edits would be lost: ${edited.join(', ')}`));
+      }
+
+      if (!dryRun && !options.removeConfig) {
+        console.log('');
+        console.log(
+          chalk.gray(
+            `.skills.yaml was kept; run ${chalk.cyan('skill sync')} to reinstall, or ${chalk.cyan('skill deinit --remove-config')} to delete it.`
+          )
+        );
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
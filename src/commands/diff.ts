@@ -1,28 +1,214 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import * as config from '../lib/config.js';
 import * as api from '../lib/api.js';
 import * as fs from '../lib/fs.js';
+import * as localRegistry from '../lib/local-registry/index.js';
+import * as output from '../lib/output.js';
+import { CliError } from '../lib/output.js';
+import { formatUnifiedDiff } from '../lib/diff.js';
+import { decomposeSkill, readInstalledSource } from '../lib/compose.js';
+import { compareManifests, toManifest, isBinary } from '../lib/skill-files.js';
+import type { SkillFiles, SkillFileChange } from '../lib/skill-files.js';
+import type { CloudSource } from '../types.js';
 import { isCloudSource } from '../types.js';
 
+/**
+ * One side of a comparison
+ */
+interface DiffSide {
+  label: string;
+  content: string;
+  files?: SkillFiles; // Omitted when the side can't provide supporting files (cloud)
+}
+
+/**
+ * Print unified diff lines with colors
+ */
+function printDiffLines(lines: string[]): void {
+  for (const line of lines) {
+    if (line.startsWith('---') || line.startsWith('+++')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Result of comparing one skill, as reported in JSON output
+ */
+interface DiffResult {
+  slug: string;
+  from: string | null; // Label of the old side
+  to: string | null; // Label of the new side
+  status: 'identical' | 'different' | 'not-installed' | 'not-in-registry' | 'fetch-failed';
+  diff: string[]; // Unified diff lines
+  changedFiles?: SkillFileChange[]; // Supporting files changed since the last sync (cloud comparisons)
+}
+
+/**
+ * Build the unified diff of two sides of a skill (SKILL.md and, when both
+ * sides have them, supporting files)
+ */
+function skillDiffLines(slug: string, oldSide: DiffSide, newSide: DiffSide, context: number): string[] {
+  const lines = formatUnifiedDiff(
+    `a/${slug}/SKILL.md`,
+    `b/${slug}/SKILL.md`,
+    oldSide.content,
+    newSide.content,
+    context
+  );
+
+  if (oldSide.files && newSide.files) {
+    const paths = [...new Set([...Object.keys(oldSide.files), ...Object.keys(newSide.files)])].sort();
+
+    for (const filePath of paths) {
+      const oldFile = oldSide.files[filePath];
+      const newFile = newSide.files[filePath];
+      if (oldFile && newFile && oldFile.equals(newFile)) continue;
+
+      const oldLabel = oldFile ? `a/${slug}/${filePath}` : '/dev/null';
+      const newLabel = newFile ? `b/${slug}/${filePath}` : '/dev/null';
+
+      if ((oldFile && isBinary(oldFile)) || (newFile && isBinary(newFile))) {
+        lines.push(`Binary files ${oldLabel} and ${newLabel} differ`);
+        continue;
+      }
+
+      lines.push(
+        ...formatUnifiedDiff(
+          oldLabel,
+          newLabel,
+          oldFile?.toString('utf-8') ?? '',
+          newFile?.toString('utf-8') ?? '',
+          context
+        )
+      );
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Print a skill's diff under a heading
+ */
+function printSkillDiff(slug: string, oldSide: DiffSide, newSide: DiffSide, lines: string[]): void {
+  console.log('');
+  console.log(chalk.bold(`${slug}: ${oldSide.label} → ${newSide.label}`));
+  console.log('');
+  printDiffLines(lines);
+}
+
+/**
+ * Compare two sides of a skill, printing the diff in text mode
+ */
+function compareSides(slug: string, oldSide: DiffSide, newSide: DiffSide, context: number): DiffResult {
+  const lines = skillDiffLines(slug, oldSide, newSide, context);
+  if (lines.length > 0 && !output.isJsonMode()) {
+    printSkillDiff(slug, oldSide, newSide, lines);
+  }
+
+  return {
+    slug,
+    from: oldSide.label,
+    to: newSide.label,
+    status: lines.length > 0 ? 'different' : 'identical',
+    diff: lines,
+  };
+}
+
+/**
+ * Read a registry revision (or the current content) as a diff side
+ */
+function readRevisionSide(slug: string, ref: string | undefined): DiffSide {
+  if (!ref) {
+    const skill = localRegistry.getSkill(slug);
+    if (!skill) {
+      throw new CliError('NOT_FOUND', `Could not read skill '${slug}' from the local registry.`);
+    }
+    return { label: 'registry (current)', content: skill.content, files: skill.files };
+  }
+
+  const found = localRegistry.findRevision(slug, ref);
+  if (!found) {
+    throw new CliError('NOT_FOUND', `Revision '${ref}' not found for '${slug}'. Run \`skill history ${slug}\` to list revisions.`);
+  }
+
+  const content = localRegistry.readObject(found.entry.sha256);
+  const files = localRegistry.readSkillFiles(found.entry.files);
+  if (content === null || files === null) {
+    throw new Error(`Content for revision #${found.revision} is missing or corrupted in the object store.`);
+  }
+
+  return {
+    label: `revision #${found.revision} (${found.entry.sha256.substring(0, 12)})`,
+    content,
+    files,
+  };
+}
+
+/**
+ * Compare two revisions of a skill in the local registry
+ */
+function diffRevisions(slug: string, from: string, to: string | undefined, context: number): DiffResult {
+  if (!localRegistry.skillExists(slug)) {
+    output.fail('NOT_FOUND', `Skill '${slug}' not found in local registry.`);
+  }
+
+  const oldSide = readRevisionSide(slug, from);
+  const newSide = readRevisionSide(slug, to);
+
+  const result = compareSides(slug, oldSide, newSide, context);
+  if (result.status === 'identical' && !output.isJsonMode()) {
+    console.log(chalk.green(`${slug}: No differences between ${oldSide.label} and ${newSide.label}`));
+  }
+  return result;
+}
+
 export const diffCommand = new Command('diff')
-  .description('Show differences between local and remote skill content (requires cloud source)')
+  .description('Show differences between the installed copy of a skill and its source, or between registry revisions')
   .argument('[slug]', 'Skill slug (optional, shows all if not provided)')
-  .action(async (slug?: string) => {
+  .argument('[from]', 'Registry revision to compare from (number or sha256 prefix)')
+  .argument('[to]', 'Registry revision to compare to (defaults to the current registry content)')
+  .option('--cloud', 'Compare the installed copy against the cloud registry instead of the local registry')
+  .option('-U, --unified <lines>', 'Number of context lines', '3')
+  .action(async (slug: string | undefined, from: string | undefined, to: string | undefined, options) => {
     try {
+      const context = parseInt(options.unified, 10);
+      if (isNaN(context) || context < 0) {
+        output.fail('INVALID_ARGUMENT', `Invalid context line count '${options.unified}'.`);
+      }
+
+      // Compare registry revisions (no project needed)
+      if (slug && from) {
+        const result = diffRevisions(slug, from, to, context);
+        if (output.isJsonMode()) {
+          output.printJson({ diffs: [result] });
+        }
+        return;
+      }
+
       // Check if initialized
       if (!config.configExists()) {
-        console.log(chalk.red('Error: Not in a skills project.'));
-        console.log(`Run ${chalk.cyan('skills init')} first.`);
-        process.exit(1);
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [
+            `Run ${chalk.cyan('skill init')} first, or compare registry revisions with ${chalk.cyan('skill diff <slug> <from> [to]')}.`,
+          ],
+        });
       }
 
-      // Check for cloud sources
-      if (!config.hasCloudSource()) {
-        console.log(chalk.red('Error: This command requires a cloud source.'));
-        console.log('Configure a cloud source in .skills.yaml or use `skills init --cloud`.');
-        process.exit(1);
+      if (options.cloud && !config.hasCloudSource()) {
+        output.fail('INVALID_ARGUMENT', '--cloud requires a cloud source.', {
+          hints: ['Configure a cloud source in .skills.yaml.'],
+        });
       }
 
       const skillsConfig = config.readConfig();
@@ -31,76 +217,133 @@ export const diffCommand = new Command('diff')
         : skillsConfig.skills;
 
       if (skillsToDiff.length === 0) {
-        console.log(chalk.yellow(slug ? `Skill '${slug}' not found in config.` : 'No skills configured.'));
+        if (slug) {
+          if (output.isJsonMode()) {
+            output.fail('NOT_FOUND', `Skill '${slug}' not found in config.`);
+          }
+          console.log(chalk.yellow(`Skill '${slug}' not found in config.`));
+        } else if (output.isJsonMode()) {
+          output.printJson({ diffs: [] });
+        } else {
+          console.log(chalk.yellow('No skills configured.'));
+        }
         return;
       }
 
-      for (const skill of skillsToDiff) {
-        const spinner = ora(`Checking ${skill.slug}...`).start();
-
-        // Get source, preferring cloud source for this command
-        const sourceName = skill.source || config.getDefaultSource()?.name;
-        const source = sourceName ? config.getSource(sourceName) : config.getDefaultSource();
-
-        if (!source || !isCloudSource(source)) {
-          spinner.warn(`${skill.slug}: Requires cloud source, skipping`);
-          continue;
+      const results: DiffResult[] = [];
+      const note = (result: DiffResult, message: string) => {
+        results.push(result);
+        if (!output.isJsonMode()) {
+          console.log(chalk.yellow(message));
         }
+      };
 
-        // Read local content
+      for (const skill of skillsToDiff) {
+        // Read the installed copy
         const localContent = fs.readSkillContent(skill.slug);
-        if (!localContent) {
-          spinner.warn(`${skill.slug}: Not synced locally`);
+        if (localContent === null) {
+          note(
+            { slug: skill.slug, from: null, to: null, status: 'not-installed', diff: [] },
+            `${skill.slug}: Not synced locally`
+          );
           continue;
         }
-
+        // Compare sources: content pulled in from other skills and the project
+        // override aren't part of this one
+        let localSource: string;
         try {
-          // Fetch remote content
-          const remoteSkill = await api.getSkill(source.registry, skill.slug);
-          const remoteContent = remoteSkill.content || '';
+          localSource = readInstalledSource(skill.slug)?.content ?? decomposeSkill(localContent);
+        } catch {
+          // Edits that `save` would refuse still show up in the diff
+          localSource = decomposeSkill(localContent);
+        }
+        const installed: DiffSide = {
+          label: 'installed',
+          content: localSource,
+          files: fs.readSkillFiles(skill.slug),
+        };
 
-          spinner.stop();
+        const source = config.getSourceForSkill(skill);
+        const cloudSource: CloudSource | undefined =
+          source && isCloudSource(source)
+            ? source
+            : options.cloud
+              ? config.getCloudSources()[0]
+              : undefined;
 
-          if (localContent === remoteContent) {
-            console.log(chalk.green(`${skill.slug}: No differences`));
+        if (!cloudSource) {
+          // Compare against the local registry
+          const registrySkill = localRegistry.getSkill(skill.slug);
+          if (!registrySkill) {
+            note(
+              { slug: skill.slug, from: 'local registry', to: 'installed', status: 'not-in-registry', diff: [] },
+              `${skill.slug}: Not found in local registry`
+            );
             continue;
           }
 
-          console.log('');
-          console.log(chalk.bold(`${skill.slug}:`));
-          console.log('');
-
-          // Simple line-by-line diff
-          const localLines = localContent.split('\n');
-          const remoteLines = remoteContent.split('\n');
+          const registry: DiffSide = {
+            label: 'local registry',
+            content: registrySkill.content,
+            files: registrySkill.files,
+          };
+          const result = compareSides(skill.slug, registry, installed, context);
+          results.push(result);
+          if (result.status === 'identical' && !output.isJsonMode()) {
+            console.log(chalk.green(`${skill.slug}: No differences`));
+          }
+          continue;
+        }
 
-          const maxLines = Math.max(localLines.length, remoteLines.length);
+        const remoteLabel = `cloud (${cloudSource.name})`;
+        const spinner = output.spinner(`Fetching ${skill.slug} from ${cloudSource.name}...`).start();
+        let remoteContent: string;
+        try {
+          const remoteSkill = await api.getSkill(cloudSource.registry, skill.slug);
+          remoteContent = remoteSkill.content || '';
+          spinner.stop();
+        } catch {
+          spinner.fail(`${skill.slug}: Failed to fetch from cloud`);
+          results.push({ slug: skill.slug, from: remoteLabel, to: 'installed', status: 'fetch-failed', diff: [] });
+          continue;
+        }
 
-          for (let i = 0; i < maxLines; i++) {
-            const localLine = localLines[i];
-            const remoteLine = remoteLines[i];
+        // Cloud registries store SKILL.md only, so supporting files are
+        // compared against what was installed by the last sync
+        const remote: DiffSide = { label: remoteLabel, content: remoteContent };
+        const result = compareSides(skill.slug, remote, { ...installed, files: undefined }, context);
+        const fileChanges = compareManifests(fs.readSkillMeta(skill.slug)?.files, toManifest(installed.files!));
+        results.push({
+          ...result,
+          status: result.status === 'identical' && fileChanges.length === 0 ? 'identical' : 'different',
+          changedFiles: fileChanges,
+        });
 
-            if (localLine === remoteLine) {
-              continue;
-            }
+        if (output.isJsonMode()) {
+          continue;
+        }
 
-            if (localLine !== undefined && remoteLine === undefined) {
-              console.log(chalk.green(`+ ${i + 1}: ${localLine}`));
-            } else if (localLine === undefined && remoteLine !== undefined) {
-              console.log(chalk.red(`- ${i + 1}: ${remoteLine}`));
-            } else if (localLine !== remoteLine) {
-              console.log(chalk.red(`- ${i + 1}: ${remoteLine}`));
-              console.log(chalk.green(`+ ${i + 1}: ${localLine}`));
-            }
+        const hasContentDiff = result.status === 'different';
+        if (fileChanges.length > 0) {
+          if (!hasContentDiff) {
+            console.log('');
+            console.log(chalk.bold(`${skill.slug}:`));
           }
-
           console.log('');
-        } catch (error) {
-          spinner.fail(`${skill.slug}: Failed to fetch from cloud`);
+          console.log(chalk.bold('Supporting files (changed since last sync):'));
+          for (const change of fileChanges) {
+            const color = change.status === 'added' ? chalk.green : change.status === 'deleted' ? chalk.red : chalk.yellow;
+            console.log(color(`  ${change.status.padEnd(8)} ${change.path}`));
+          }
+        } else if (!hasContentDiff) {
+          console.log(chalk.green(`${skill.slug}: No differences`));
         }
       }
+
+      if (output.isJsonMode()) {
+        output.printJson({ diffs: results });
+      }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -0,0 +1,57 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as localRegistry from '../lib/local-registry/index.js';
+
+export const historyCommand = new Command('history')
+  .description('List saved revisions of a skill in the local registry')
+  .argument('<slug>', 'Skill slug')
+  .option('-n, --limit <count>', 'Show only the most recent revisions')
+  .action(async (slug: string, options) => {
+    try {
+      if (!localRegistry.skillExists(slug)) {
+        console.log(chalk.red(`Error: Skill '${slug}' not found in local registry.`));
+        process.exit(1);
+      }
+
+      const meta = localRegistry.readMeta(slug);
+      const entries = localRegistry.getSkillHistory(slug);
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow(`No history recorded for '${slug}'.`));
+        return;
+      }
+
+      const limit = options.limit ? parseInt(options.limit, 10) : entries.length;
+      if (isNaN(limit) || limit <= 0) {
+        console.log(chalk.red(`Error: Invalid limit '${options.limit}'.`));
+        process.exit(1);
+      }
+
+      console.log(chalk.bold(`${slug} (${entries.length} revision${entries.length === 1 ? '' : 's'}):`));
+      console.log('');
+
+      // Newest first, numbered by revision (oldest is #1)
+      for (let i = entries.length - 1; i >= Math.max(0, entries.length - limit); i--) {
+        const entry = entries[i];
+        const revision = chalk.cyan(`#${i + 1}`.padEnd(5));
+        const sha = entry.sha256.substring(0, 12);
+        const version = entry.version ? ` v${entry.version}` : '';
+        const date = new Date(entry.createdAt).toLocaleString();
+        const author = entry.author ? chalk.gray(` by ${entry.author}`) : '';
+        const current = entry.sha256 === meta?.sha256 && i === entries.length - 1
+          ? chalk.green(' (current)')
+          : '';
+
+        console.log(`  ${revision} ${sha}${version}  ${chalk.gray(date)}${author}${current}`);
+        if (entry.message) {
+          console.log(`        ${entry.message}`);
+        }
+      }
+
+      console.log('');
+      console.log(`Restore a revision with ${chalk.cyan(`skill checkout ${slug} <revision|sha>`)}`);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
@@ -4,10 +4,12 @@ import * as path from 'path';
 import * as os from 'os';
 import chalk from 'chalk';
 import ora from 'ora';
-import * as yaml from 'yaml';
 import * as readline from 'readline';
 import * as localRegistry from '../lib/local-registry/index.js';
 import * as config from '../lib/config.js';
+import { metadataFromContent } from '../lib/metadata.js';
+import { collectSkillFiles } from '../lib/skill-files.js';
+import type { SkillFiles } from '../lib/skill-files.js';
 import type { SkillEntry } from '../types.js';
 
 /**
@@ -20,6 +22,7 @@ interface DiscoveredSkill {
   tags: string[];
   compat: string[];
   content: string;
+  files: SkillFiles; // Supporting files next to SKILL.md (skill-dirs only)
   sourcePath: string;
   sourceType: 'claude-skills' | 'claude-commands' | 'agents-md' | 'cursorrules' | 'custom';
   sourceLabel: string;
@@ -93,58 +96,6 @@ function getCommonLocations(cwd: string): ScanLocation[] {
   ];
 }
 
-/**
- * Parse YAML frontmatter from markdown content
- */
-function parseFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
-  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
-
-  if (!match) {
-    return { frontmatter: {}, body: content };
-  }
-
-  try {
-    const frontmatter = yaml.parse(match[1]) || {};
-    return { frontmatter, body: match[2] };
-  } catch {
-    return { frontmatter: {}, body: content };
-  }
-}
-
-/**
- * Extract skill metadata from frontmatter
- */
-function extractMetadata(frontmatter: Record<string, unknown>, slug: string): {
-  name: string;
-  description: string;
-  tags: string[];
-  compat: string[];
-} {
-  const name = typeof frontmatter.name === 'string'
-    ? frontmatter.name
-    : slug.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
-
-  const description = typeof frontmatter.description === 'string'
-    ? frontmatter.description
-    : '';
-
-  let tags: string[] = [];
-  if (Array.isArray(frontmatter.tags)) {
-    tags = frontmatter.tags.filter((t): t is string => typeof t === 'string');
-  } else if (typeof frontmatter.tags === 'string') {
-    tags = frontmatter.tags.split(',').map(t => t.trim());
-  }
-
-  let compat: string[] = [];
-  if (Array.isArray(frontmatter.compat)) {
-    compat = frontmatter.compat.filter((c): c is string => typeof c === 'string');
-  } else if (typeof frontmatter.compat === 'string') {
-    compat = frontmatter.compat.split(',').map(c => c.trim());
-  }
-
-  return { name, description, tags, compat };
-}
-
 /**
  * Scan a skill-dirs location (directories containing SKILL.md)
  */
@@ -165,16 +116,16 @@ function scanSkillDirs(location: ScanLocation): DiscoveredSkill[] {
 
     try {
       const content = fs.readFileSync(skillPath, 'utf-8');
-      const { frontmatter } = parseFrontmatter(content);
-      const metadata = extractMetadata(frontmatter, entry.name);
+      const metadata = metadataFromContent(content, entry.name);
 
       skills.push({
         slug: entry.name,
         name: metadata.name,
-        description: metadata.description,
+        description: metadata.description || '',
         tags: metadata.tags,
         compat: metadata.compat,
         content,
+        files: collectSkillFiles(path.join(location.path, entry.name)),
         sourcePath: skillPath,
         sourceType: location.type,
         sourceLabel: location.label,
@@ -210,16 +161,16 @@ function scanDirectory(location: ScanLocation): DiscoveredSkill[] {
 
     try {
       const content = fs.readFileSync(filePath, 'utf-8');
-      const { frontmatter } = parseFrontmatter(content);
-      const metadata = extractMetadata(frontmatter, slug.toLowerCase());
+      const metadata = metadataFromContent(content, slug.toLowerCase());
 
       skills.push({
         slug: slug.toLowerCase(),
         name: metadata.name,
-        description: metadata.description,
+        description: metadata.description || '',
         tags: metadata.tags,
         compat: metadata.compat,
         content,
+        files: {},
         sourcePath: filePath,
         sourceType: location.type,
         sourceLabel: location.label,
@@ -244,16 +195,16 @@ function scanFile(location: ScanLocation): DiscoveredSkill[] {
 
   try {
     const content = fs.readFileSync(location.path, 'utf-8');
-    const { frontmatter } = parseFrontmatter(content);
-    const metadata = extractMetadata(frontmatter, slug);
+    const metadata = metadataFromContent(content, slug);
 
     return [{
       slug,
       name: metadata.name || location.label,
-      description: metadata.description,
+      description: metadata.description || '',
       tags: metadata.tags,
       compat: metadata.compat,
       content,
+      files: {},
       sourcePath: location.path,
       sourceType: location.type,
       sourceLabel: location.label,
@@ -333,7 +284,9 @@ async function selectSkills(skills: DiscoveredSkill[]): Promise<DiscoveredSkill[
     for (const skill of sourceSkills) {
       const alreadyExists = localRegistry.skillExists(skill.slug);
       const existsMarker = alreadyExists ? chalk.yellow(' (exists)') : '';
-      console.log(`    ${chalk.gray(`[${index}]`)} ${skill.slug}${existsMarker}`);
+      const fileCount = Object.keys(skill.files).length;
+      const filesMarker = fileCount > 0 ? chalk.gray(` (+${fileCount} file${fileCount === 1 ? '' : 's'})`) : '';
+      console.log(`    ${chalk.gray(`[${index}]`)} ${skill.slug}${filesMarker}${existsMarker}`);
       if (skill.description) {
         console.log(`        ${chalk.gray(skill.description.substring(0, 60))}${skill.description.length > 60 ? '...' : ''}`);
       }
@@ -399,12 +352,14 @@ function importSkill(skill: DiscoveredSkill, options: { force: boolean }): { suc
     localRegistry.putSkill({
       slug: skill.slug,
       content: skill.content,
+      files: skill.files,
       meta: {
         name: skill.name,
         description: skill.description || undefined,
         tags: skill.tags,
         compat: skill.compat,
       },
+      message: `Imported from ${skill.sourcePath}`,
     });
 
     return {
@@ -1,6 +1,24 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import * as localRegistry from '../lib/local-registry/index.js';
+import * as config from '../lib/config.js';
+import * as resolver from '../lib/resolver.js';
+import * as output from '../lib/output.js';
+import { getDependencyTree, findDependents, formatReference } from '../lib/compose.js';
+import type { DependencyNode } from '../lib/compose.js';
+import { isCloudSource } from '../types.js';
+
+/**
+ * Print the skills a skill includes or extends as a tree
+ */
+function printDependencyTree(nodes: DependencyNode[], prefix = '  '): void {
+  nodes.forEach((node, index) => {
+    const last = index === nodes.length - 1;
+    const problem = node.missing ? chalk.red(' (not found)') : node.cycle ? chalk.red(' (cycle)') : '';
+    console.log(`${prefix}${last ? '└── ' : '├── '}${chalk.gray(node.kind)} ${chalk.cyan(formatReference(node))}${problem}`);
+    printDependencyTree(node.children, prefix + (last ? '    ' : '│   '));
+  });
+}
 
 export const infoCommand = new Command('info')
   .description('Show detailed information about a skill')
@@ -10,18 +28,69 @@ export const infoCommand = new Command('info')
     try {
       // Check if skill exists in local registry
       if (!localRegistry.skillExists(slug)) {
-        console.log(chalk.red(`Error: Skill '${slug}' not found in local cache.`));
-        console.log('');
-        console.log('To create this skill:');
-        console.log(`  ${chalk.cyan(`skill new ${slug}`)}`);
-        process.exit(1);
+        output.fail('NOT_FOUND', `Skill '${slug}' not found in local cache.`, {
+          hints: ['', 'To create this skill:', `  ${chalk.cyan(`skill new ${slug}`)}`],
+        });
       }
 
       // Get skill info
       const skillInfo = localRegistry.getSkillInfo(slug);
       if (!skillInfo) {
-        console.log(chalk.red(`Error: Could not read skill '${slug}'.`));
-        process.exit(1);
+        output.fail('UNKNOWN', `Could not read skill '${slug}'.`);
+      }
+
+      const versions = localRegistry.listSkillVersions(slug);
+      const files = Object.keys(skillInfo.meta.files || {});
+
+      // Resolve the project's version constraint, if any
+      const entry = config.configExists() ? config.findSkill(slug) : undefined;
+      const source = entry ? config.getSourceForSkill(entry) : undefined;
+      let resolution: { version?: string; error?: string } | undefined;
+      if (entry?.version) {
+        try {
+          const resolved =
+            source && isCloudSource(source)
+              ? await resolver.resolveCloudVersion(source, slug, entry.version)
+              : resolver.resolveLocalVersion(slug, entry.version);
+          resolution = { version: resolved.version };
+        } catch (error) {
+          resolution = { error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+
+      const skillContent = localRegistry.getSkill(slug)?.content;
+      const content = options.content ? skillContent : undefined;
+
+      // Skills this one includes or extends, and the skills that pull it in
+      const dependencies = skillContent !== undefined ? getDependencyTree(slug, skillContent) : [];
+      const dependents = findDependents(slug);
+
+      if (output.isJsonMode()) {
+        output.printJson({
+          slug,
+          name: skillInfo.meta.name,
+          description: skillInfo.meta.description ?? null,
+          tags: skillInfo.meta.tags,
+          compat: skillInfo.meta.compat,
+          version: versions[0]?.version ?? null,
+          versions: versions.map((v) => v.version),
+          sha256: skillInfo.meta.sha256 ?? null,
+          updatedAt: skillInfo.meta.updatedAt,
+          path: localRegistry.getSkillFilePath(slug),
+          files,
+          dependencies,
+          dependents,
+          project: entry?.version
+            ? {
+                constraint: entry.version,
+                source: source?.name ?? null,
+                resolvedVersion: resolution?.version ?? null,
+                error: resolution?.error ?? null,
+              }
+            : null,
+          ...(content !== undefined ? { content } : {}),
+        });
+        return;
       }
 
       // Display info
@@ -42,25 +111,53 @@ export const infoCommand = new Command('info')
         console.log(`${chalk.bold('Compat:')}      ${skillInfo.meta.compat.join(', ')}`);
       }
 
+      if (versions.length > 0) {
+        console.log(`${chalk.bold('Version:')}     ${versions[0].version}`);
+        if (versions.length > 1) {
+          console.log(`${chalk.bold('Versions:')}    ${versions.map((v) => v.version).join(', ')}`);
+        }
+      }
+
       console.log(`${chalk.bold('SHA256:')}      ${skillInfo.meta.sha256?.substring(0, 16) || 'unknown'}...`);
       console.log(`${chalk.bold('Updated:')}     ${new Date(skillInfo.meta.updatedAt).toLocaleString()}`);
       console.log(`${chalk.bold('Registry:')}    ${localRegistry.getSkillFilePath(slug)}`);
 
+      if (files.length > 0) {
+        console.log(`${chalk.bold('Files:')}       ${files.join(', ')}`);
+      }
+
+      if (dependencies.length > 0) {
+        console.log(`${chalk.bold('Composition:')} ${slug}`);
+        printDependencyTree(dependencies, '             ');
+      }
+
+      if (dependents.length > 0) {
+        console.log(`${chalk.bold('Used by:')}     ${dependents.join(', ')}`);
+      }
+
+      // Show how the project's version constraint resolves
+      if (entry?.version && resolution) {
+        if (resolution.version) {
+          console.log(
+            `${chalk.bold('Project:')}     ${entry.version} → ${chalk.green(resolution.version)}` +
+              (source ? chalk.gray(` (${source.name})`) : '')
+          );
+        } else {
+          console.log(`${chalk.bold('Project:')}     ${entry.version} → ${chalk.red(resolution.error)}`);
+        }
+      }
+
       // Show content preview if requested
-      if (options.content) {
-        const skillData = localRegistry.getSkill(slug);
-        if (skillData) {
-          console.log('');
-          console.log(chalk.bold('Content Preview:'));
-          const preview = skillData.content.split('\n').slice(0, 10).join('\n');
-          console.log(chalk.gray(preview));
-          if (skillData.content.split('\n').length > 10) {
-            console.log(chalk.gray('...'));
-          }
+      if (content !== undefined) {
+        console.log('');
+        console.log(chalk.bold('Content Preview:'));
+        const preview = content.split('\n').slice(0, 10).join('\n');
+        console.log(chalk.gray(preview));
+        if (content.split('\n').length > 10) {
+          console.log(chalk.gray('...'));
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -7,7 +7,8 @@ import * as config from '../lib/config.js';
 import * as auth from '../lib/auth.js';
 import { updateGitignore, ensureDir } from '../lib/fs.js';
 import { ensureRegistryStructure } from '../lib/local-registry/index.js';
-import type { SkillsConfig, SkillSource } from '../types.js';
+import { INTEGRATION_NAMES } from '../lib/targets.js';
+import type { IntegrationsConfig, SkillsConfig, SkillSource } from '../types.js';
 
 export const initCommand = new Command('init')
   .description('Initialize a new skills configuration in the current directory')
@@ -97,6 +98,19 @@ export const initCommand = new Command('init')
         updateGitignore(installPath);
       }
 
+      // Agent instruction files are only touched if the user opts in
+      const addIntegrations = await confirm({
+        message:
+          'Add Overskill to agent instruction files (CLAUDE.md, AGENTS.md, .cursor/rules)? This lets agents discover installed skills. You can change this later under "integrations" in .skills.yaml.',
+        default: false,
+      });
+
+      const integrations: IntegrationsConfig = {};
+      for (const name of INTEGRATION_NAMES) {
+        integrations[name] = addIntegrations || name === 'claude_skills';
+      }
+      config.writeConfig({ ...config.readConfig(), integrations });
+
       console.log(chalk.green('Initialized skills configuration!'));
       console.log('');
       console.log('Created files:');
@@ -1,26 +1,73 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
 import * as localRegistry from '../lib/local-registry/index.js';
+import * as output from '../lib/output.js';
+import * as targets from '../lib/targets.js';
+import type { SkillsConfig, TargetName } from '../types.js';
+
+/**
+ * Get the targets a skill would be delivered to: the project's targets (and
+ * compat override) inside a project, every target outside one
+ */
+function deliveryTargets(skillsConfig: SkillsConfig | null, slug: string, compat: string[]): TargetName[] {
+  if (!skillsConfig) {
+    return targets.getDeliveryTargets(compat, targets.TARGET_NAMES);
+  }
+  return targets.getDeliveryTargets(
+    targets.getEffectiveCompat(skillsConfig, slug, compat),
+    targets.getTargets(skillsConfig).targets
+  );
+}
+
+/**
+ * Format delivery targets for display
+ */
+function formatTargets(names: TargetName[]): string {
+  return names.length > 0 ? chalk.green(names.join(', ')) : chalk.yellow('none');
+}
 
 export const listCommand = new Command('list')
   .description('List skills')
   .option('-p, --project', 'List only skills in the current project')
   .option('-l, --local', 'List skills from local registry cache')
   .option('-t, --tags <tags>', 'Filter by tags (comma-separated)')
-  .option('-c, --compat <compat>', 'Filter by compatibility (comma-separated)')
+  .option('-c, --compat [compat]', 'Filter by compatibility (comma-separated), or show the targets each skill is delivered to')
   .action(async options => {
     try {
+      const showTargets = options.compat === true;
+
       if (options.project) {
         // List installed skills in current project
         if (!config.configExists()) {
-          console.log(chalk.red('Error: Not in a skills project.'));
-          console.log(`Run ${chalk.cyan('skill init')} first.`);
-          process.exit(1);
+          output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+            hints: [`Run ${chalk.cyan('skill init')} first.`],
+          });
         }
 
         const skillsConfig = config.readConfig();
 
+        // Compat of the installed copy, falling back to the local registry
+        const compatOf = (slug: string): string[] =>
+          fs.readSkillMeta(slug)?.compat ?? (localRegistry.skillExists(slug) ? localRegistry.readMeta(slug)?.compat : undefined) ?? [];
+
+        if (output.isJsonMode()) {
+          output.printJson({
+            scope: 'project',
+            skills: skillsConfig.skills.map((skill) => ({
+              slug: skill.slug,
+              source: config.getSourceForSkill(skill)?.name ?? null,
+              version: skill.version ?? null,
+              description: localRegistry.skillExists(skill.slug)
+                ? localRegistry.readMeta(skill.slug)?.description ?? null
+                : null,
+              targets: deliveryTargets(skillsConfig, skill.slug, compatOf(skill.slug)),
+            })),
+          });
+          return;
+        }
+
         if (skillsConfig.skills.length === 0) {
           console.log(chalk.yellow('No skills configured in this project.'));
           console.log(`Run ${chalk.cyan('skill add <slug>')} to add skills.`);
@@ -31,6 +78,14 @@ export const listCommand = new Command('list')
         console.log('');
 
         for (const skill of skillsConfig.skills) {
+          if (showTargets) {
+            const override = skill.compat ? chalk.gray(' (compat set in .skills.yaml)') : '';
+            console.log(
+              `  ${chalk.cyan(skill.slug.padEnd(25))}${formatTargets(deliveryTargets(skillsConfig, skill.slug, compatOf(skill.slug)))}${override}`
+            );
+            continue;
+          }
+
           const description = localRegistry.skillExists(skill.slug)
             ? localRegistry.readMeta(skill.slug)?.description
             : undefined;
@@ -44,7 +99,7 @@ export const listCommand = new Command('list')
         // List all skills in local registry cache
         let skills = localRegistry.listSkills();
 
-        if (skills.length === 0) {
+        if (skills.length === 0 && !output.isJsonMode()) {
           console.log(chalk.yellow('No skills in local cache.'));
           console.log('');
           console.log('To add skills:');
@@ -61,14 +116,33 @@ export const listCommand = new Command('list')
           );
         }
 
+        const skillsConfig = config.configExists() ? config.readConfig() : null;
+
         // Filter by compat
-        if (options.compat) {
+        if (typeof options.compat === 'string') {
           const filterCompat = options.compat.split(',').map((c: string) => c.trim().toLowerCase());
           skills = skills.filter((skill) =>
             skill.meta.compat.some((c) => filterCompat.includes(c.toLowerCase()))
           );
         }
 
+        if (output.isJsonMode()) {
+          output.printJson({
+            scope: 'local',
+            skills: skills.map((skill) => ({
+              slug: skill.slug,
+              name: skill.meta.name,
+              description: skill.meta.description ?? null,
+              tags: skill.meta.tags,
+              compat: skill.meta.compat,
+              targets: deliveryTargets(skillsConfig, skill.slug, skill.meta.compat),
+              sha256: skill.meta.sha256,
+              updatedAt: skill.meta.updatedAt,
+            })),
+          });
+          return;
+        }
+
         if (skills.length === 0) {
           console.log(chalk.yellow('No skills match the specified filters.'));
           return;
@@ -78,6 +152,13 @@ export const listCommand = new Command('list')
         console.log('');
 
         for (const skill of skills) {
+          if (showTargets) {
+            console.log(
+              `  ${chalk.cyan(skill.slug.padEnd(25))}${formatTargets(deliveryTargets(skillsConfig, skill.slug, skill.meta.compat))}`
+            );
+            continue;
+          }
+
           const description = skill.meta.description
             ? chalk.gray(` - ${skill.meta.description.substring(0, 50)}${skill.meta.description.length > 50 ? '...' : ''}`)
             : '';
@@ -86,7 +167,6 @@ export const listCommand = new Command('list')
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -0,0 +1,179 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as nodeFs from 'fs';
+import * as path from 'path';
+import * as api from '../lib/api.js';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as targets from '../lib/targets.js';
+import * as localRegistry from '../lib/local-registry/index.js';
+import * as output from '../lib/output.js';
+import { METADATA_FIELDS, applyMetadataToContent, sameValue } from '../lib/metadata.js';
+import type { SkillMetadata } from '../lib/metadata.js';
+import { isCloudSource } from '../types.js';
+import type { CloudSource } from '../types.js';
+
+/**
+ * Split a comma-separated list
+ */
+function parseList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Collect a repeatable comma-separated option
+ */
+function collectList(value: string, previous: string[] = []): string[] {
+  return [...previous, ...parseList(value)];
+}
+
+/**
+ * Print a skill's metadata
+ */
+function printMetadata(metadata: SkillMetadata): void {
+  console.log(`  ${chalk.bold('Name:')}        ${metadata.name}`);
+  console.log(`  ${chalk.bold('Description:')} ${metadata.description || chalk.gray('(none)')}`);
+  console.log(`  ${chalk.bold('Tags:')}        ${metadata.tags.join(', ') || chalk.gray('(none)')}`);
+  console.log(`  ${chalk.bold('Compat:')}      ${metadata.compat.join(', ') || chalk.gray('(none)')}`);
+}
+
+export const metaCommand = new Command('meta')
+  .alias('edit-meta')
+  .description("View or change a skill's description, tags and compat")
+  .argument('<slug>', 'Skill slug')
+  .option('-d, --description <desc>', 'Set the description (empty to clear)')
+  .option('--add-tag <tags>', 'Add tags (comma-separated, repeatable)', collectList)
+  .option('--remove-tag <tags>', 'Remove tags (comma-separated, repeatable)', collectList)
+  .option('--compat <compat>', 'Set compatibility (comma-separated, empty to clear)')
+  .action(async (slug: string, options) => {
+    try {
+      // Cloud skills are updated in their registry; everything else in the local registry
+      const entry = config.configExists() ? config.findSkill(slug) : undefined;
+      const source = entry ? config.getSourceForSkill(entry) : undefined;
+      const cloud: CloudSource | undefined = source && isCloudSource(source) ? source : undefined;
+
+      const inRegistry = !cloud && localRegistry.skillExists(slug);
+      const installed = config.configExists() && fs.skillExists(slug);
+
+      const stored = inRegistry
+        ? localRegistry.readMeta(slug)
+        : installed
+          ? fs.readSkillMeta(slug)
+          : cloud
+            ? await api.getSkill(cloud.registry, slug)
+            : null;
+      if (!stored) {
+        output.fail('NOT_FOUND', `Skill '${slug}' not found.`, {
+          hints: ['', 'To create this skill:', `  ${chalk.cyan(`skill new ${slug}`)}`],
+        });
+      }
+
+      const current: SkillMetadata = {
+        name: stored.name,
+        description: stored.description || undefined,
+        tags: stored.tags || [],
+        compat: stored.compat || [],
+      };
+
+      const removed = new Set<string>(options.removeTag || []);
+      const tags = [...new Set([...current.tags.filter((t) => !removed.has(t)), ...(options.addTag || [])])];
+      const metadata: SkillMetadata = {
+        name: current.name,
+        description: options.description !== undefined ? options.description.trim() || undefined : current.description,
+        tags,
+        compat: options.compat !== undefined ? parseList(options.compat) : current.compat,
+      };
+
+      const changed = METADATA_FIELDS.filter((field) => !sameValue(metadata[field], current[field]));
+      const updates: Partial<SkillMetadata> = {};
+      for (const field of changed) {
+        Object.assign(updates, { [field]: metadata[field] });
+      }
+
+      if (changed.length === 0) {
+        if (output.isJsonMode()) {
+          output.printJson({ slug, ...current, updated: [] });
+          return;
+        }
+        const editing = ['description', 'addTag', 'removeTag', 'compat'].some((o) => options[o] !== undefined);
+        console.log('');
+        console.log(chalk.bold.cyan(slug));
+        printMetadata(current);
+        if (editing) {
+          console.log('');
+          console.log(chalk.yellow('Metadata unchanged. Nothing to do.'));
+        }
+        return;
+      }
+
+      // Rewrite the frontmatter first so invalid YAML aborts before anything is written
+      const registrySkill = inRegistry ? localRegistry.getSkill(slug) : null;
+      const registryContent = registrySkill ? applyMetadataToContent(registrySkill.content, updates) : null;
+      const installedContent = installed ? fs.readSkillContent(slug) : null;
+      const newInstalledContent = installedContent !== null ? applyMetadataToContent(installedContent, updates) : null;
+      const modified = installed && fs.isSkillModified(slug);
+
+      const spinner = output.spinner(`Updating ${slug}...`).start();
+
+      try {
+        if (cloud) {
+          await api.updateSkill(cloud.registry, slug, updates);
+        }
+
+        if (registrySkill && registryContent !== null) {
+          if (registryContent !== registrySkill.content) {
+            localRegistry.putSkill({ slug, content: registryContent, meta: metadata, message: 'Update metadata' });
+          } else {
+            localRegistry.writeMeta(slug, { ...registrySkill.meta, ...metadata, updatedAt: new Date().toISOString() });
+          }
+        }
+
+        if (installed && newInstalledContent !== null) {
+          nodeFs.writeFileSync(path.join(fs.getSkillDir(slug), 'SKILL.md'), newInstalledContent, 'utf-8');
+          fs.writeSkillMetadata(slug, metadata);
+
+          // An unedited copy now matches the new registry revision. Composed and
+          // overridden copies differ from it, so store their content (and the
+          // content the override applies to) for the next sync to merge against.
+          if (inRegistry && !modified) {
+            const overrideBase = fs.readSkillMeta(slug)?.override_base;
+            const baseContent = overrideBase ? localRegistry.readObject(overrideBase) : null;
+            fs.markSkillSaved(slug, {
+              files: false,
+              sha256: localRegistry.writeObject(newInstalledContent),
+              ...(baseContent !== null
+                ? { overrideBase: localRegistry.writeObject(applyMetadataToContent(baseContent, updates)) }
+                : {}),
+            });
+          }
+        }
+
+        if (config.configExists()) {
+          targets.refreshTargets();
+        }
+
+        spinner.succeed(`Updated ${chalk.cyan(slug)}${cloud ? ` in ${cloud.registry}` : ''}`);
+      } catch (error) {
+        spinner.fail(`Failed to update ${slug}`);
+        throw error;
+      }
+
+      if (output.isJsonMode()) {
+        output.printJson({ slug, ...metadata, updated: changed });
+        return;
+      }
+
+      console.log('');
+      printMetadata(metadata);
+
+      if (installed && cloud && newInstalledContent !== installedContent) {
+        console.log('');
+        console.log(chalk.gray(`Run ${chalk.cyan(`skill push ${slug}`)} to publish the updated frontmatter.`));
+      } else if (installed && modified) {
+        console.log('');
+        console.log(chalk.gray(`The installed copy has local edits; run ${chalk.cyan(`skill save ${slug}`)} to keep them.`));
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
@@ -8,39 +8,34 @@ import * as yaml from 'yaml';
 import * as localRegistry from '../lib/local-registry/index.js';
 import * as config from '../lib/config.js';
 import * as auth from '../lib/auth.js';
+import { getSkillDir } from '../lib/fs.js';
+import { input } from '@inquirer/prompts';
 import { parseEditorCommand } from '../lib/editor.js';
+import { splitFrontmatter } from '../lib/frontmatter.js';
+import { applyMetadataToContent, metadataFromContent } from '../lib/metadata.js';
+import * as templates from '../lib/templates.js';
+import type { SkillFiles } from '../lib/skill-files.js';
 import type { SkillEntry } from '../types.js';
 
-const SKILL_TEMPLATE = `# {{name}}
-
-## Instructions
-
-<!-- Add your skill instructions here -->
-
-## Examples
-
-<!-- Add examples of how to use this skill -->
-`;
-
 function collectMetadata(value: string, previous: string[]): string[] {
   return [...previous, value];
 }
 
-function parseMetadata(values?: string[]): Record<string, string> {
+function parseMetadata(values?: string[], label = 'metadata'): Record<string, string> {
   const result: Record<string, string> = {};
   const entries = values ?? [];
 
   for (const entry of entries) {
     const separatorIndex = entry.indexOf("=");
     if (separatorIndex <= 0 || separatorIndex === entry.length - 1) {
-      throw new Error(`Invalid metadata '${entry}'. Use key=value.`);
+      throw new Error(`Invalid ${label} '${entry}'. Use key=value.`);
     }
 
     const key = entry.slice(0, separatorIndex).trim();
     const value = entry.slice(separatorIndex + 1).trim();
 
     if (!key || !value) {
-      throw new Error(`Invalid metadata '${entry}'. Use non-empty key=value.`);
+      throw new Error(`Invalid ${label} '${entry}'. Use non-empty key=value.`);
     }
 
     result[key] = value;
@@ -68,6 +63,40 @@ function buildFrontmatter(params: {
   return `---\n${body}\n---\n\n`;
 }
 
+/**
+ * Set extra keys in a rendered template's frontmatter
+ */
+function addFrontmatterKeys(content: string, metadata: Record<string, string>): string {
+  const block = splitFrontmatter(content);
+  if (!block || Object.keys(metadata).length === 0) {
+    return content;
+  }
+
+  const doc = yaml.parseDocument(block.yaml);
+  if (doc.errors.length > 0 || !yaml.isMap(doc.contents)) {
+    throw new Error('The template\'s frontmatter is not a valid YAML mapping.');
+  }
+  for (const [key, value] of Object.entries(metadata)) {
+    doc.set(key, value);
+  }
+
+  return `---\n${doc.toString({ lineWidth: 0 }).trimEnd()}\n---\n${block.body}`;
+}
+
+/**
+ * Ask for template variables that have no value yet
+ */
+async function promptForVariables(missing: templates.TemplateVariable[]): Promise<Record<string, string>> {
+  const values: Record<string, string> = {};
+  for (const variable of missing) {
+    values[variable.name] = await input({
+      message: `${variable.description || variable.name}:`,
+      validate: (value) => (value.trim() ? true : `${variable.name} is required`),
+    });
+  }
+  return values;
+}
+
 function appendVersionComment(content: string, version: string): string {
   const trimmed = content.trimEnd();
   if (!trimmed) {
@@ -129,6 +158,13 @@ export const newCommand = new Command("new")
     "Read content from file instead of opening editor",
   )
   .option("--blank", "Open editor with blank content (frontmatter only)")
+  .option("--template <name>", "Scaffold from a template (see `skill template list`)")
+  .option(
+    "--var <key=value>",
+    "Repeatable template variable",
+    collectMetadata,
+    [],
+  )
   .option("--no-editor", "Skip editor and create with template")
   .option("--no-add", "Skip adding to project after creation")
   .option("--no-sync", "Skip automatic sync after adding")
@@ -156,6 +192,7 @@ export const newCommand = new Command("new")
       const name = options.name || slug;
       const description = options.description || '';
       const metadata = parseMetadata(options.metadata);
+      const variables = parseMetadata(options.var, 'variable');
       const tags = options.tags
         ? options.tags.split(',').map((t: string) => t.trim())
         : [];
@@ -168,8 +205,15 @@ export const newCommand = new Command("new")
         metadata,
       });
 
+      if (options.template && (options.content || options.blank)) {
+        console.log(chalk.red('Error: --template cannot be combined with --content or --blank.'));
+        process.exit(1);
+      }
+
       // Build content with version comment at the bottom
       let content: string;
+      let files: SkillFiles | undefined;
+      let templateMeta = false;
       const initialVersion = '1.0.0';
 
       if (options.content) {
@@ -184,11 +228,66 @@ export const newCommand = new Command("new")
         // Frontmatter only
         content = appendVersionComment(`${frontmatter}\n`, initialVersion);
       } else {
-        // Template with frontmatter
-        content = appendVersionComment(
-          `${frontmatter}${SKILL_TEMPLATE.replace('{{name}}', name)}`,
-          initialVersion,
-        );
+        // Scaffold from a template (the default one unless --template is given)
+        const templateName = options.template || templates.DEFAULT_TEMPLATE;
+        if (!templates.isValidTemplateName(templateName)) {
+          console.log(chalk.red('Error: Template name must be lowercase alphanumeric with hyphens only.'));
+          process.exit(1);
+        }
+        const template = templates.getTemplate(templateName);
+        if (!template) {
+          console.log(chalk.red(`Error: Template '${templateName}' not found.`));
+          console.log(`Run ${chalk.cyan('skill template list')} to see available templates.`);
+          process.exit(1);
+        }
+
+        const resolved = templates.resolveVariables(template, {
+          ...variables,
+          slug,
+          name,
+          description,
+        });
+        let values = resolved.values;
+        if (resolved.missing.length > 0) {
+          if (!process.stdin.isTTY) {
+            console.log(
+              chalk.red(
+                `Error: Template '${templateName}' needs a value for: ${resolved.missing.map((v) => v.name).join(', ')}`,
+              ),
+            );
+            console.log(`Pass them with ${chalk.cyan('--var <key=value>')}.`);
+            process.exit(1);
+          }
+          values = { ...values, ...(await promptForVariables(resolved.missing)) };
+        }
+
+        const rendered = templates.renderTemplate(template, values);
+        if (Object.keys(rendered.files).length > 0) {
+          files = rendered.files;
+        }
+
+        let body = rendered.content;
+        if (splitFrontmatter(body)) {
+          // The template's frontmatter is kept; options override its fields
+          body = applyMetadataToContent(body, {
+            name,
+            ...(description ? { description } : {}),
+            ...(options.tags ? { tags } : {}),
+            ...(options.compat ? { compat } : {}),
+          });
+          if (!options.tags && template.source === 'registry') {
+            const templateTags = metadataFromContent(body, slug).tags;
+            body = applyMetadataToContent(body, {
+              tags: templateTags.filter((t) => t !== templates.TEMPLATE_TAG),
+            });
+          }
+          body = addFrontmatterKeys(body, metadata);
+          templateMeta = true;
+        } else {
+          body = `${frontmatter}${body}`;
+        }
+
+        content = appendVersionComment(body, initialVersion);
       }
 
       // Validate content
@@ -201,15 +300,17 @@ export const newCommand = new Command("new")
 
       try {
         // Save to local registry
+        // A template's frontmatter may set tags and compat of its own
+        const meta = templateMeta
+          ? metadataFromContent(content, slug)
+          : { name, description: description || undefined, tags, compat };
+
         const { sha256 } = localRegistry.putSkill({
           slug,
           content,
-          meta: {
-            name,
-            description: description || undefined,
-            tags,
-            compat,
-          },
+          files,
+          meta,
+          message: options.template ? `Created from template ${options.template}` : 'Created',
         });
 
         spinner.succeed(`Created ${chalk.cyan(slug)}`);
@@ -217,16 +318,19 @@ export const newCommand = new Command("new")
         console.log('');
         console.log('Skill details:');
         console.log(`  ${chalk.bold('Slug:')}        ${slug}`);
-        console.log(`  ${chalk.bold('Name:')}        ${name}`);
+        console.log(`  ${chalk.bold('Name:')}        ${meta.name}`);
         console.log(
           `  ${chalk.bold('SHA256:')}      ${sha256.substring(0, 16)}...`,
         );
 
-        if (tags.length > 0) {
-          console.log(`  ${chalk.bold('Tags:')}        ${tags.join(', ')}`);
+        if (meta.tags.length > 0) {
+          console.log(`  ${chalk.bold('Tags:')}        ${meta.tags.join(', ')}`);
+        }
+        if (meta.compat.length > 0) {
+          console.log(`  ${chalk.bold('Compat:')}      ${meta.compat.join(', ')}`);
         }
-        if (compat.length > 0) {
-          console.log(`  ${chalk.bold('Compat:')}      ${compat.join(', ')}`);
+        if (files) {
+          console.log(`  ${chalk.bold('Files:')}       ${Object.keys(files).join(', ')}`);
         }
 
         // Auto-add to project if initialized and not disabled
@@ -256,8 +360,7 @@ export const newCommand = new Command("new")
 
         // Open the synced skill file in the editor (unless --no-editor)
         if (options.editor !== false && isInProject) {
-          const installPath = config.getInstallPath();
-          const skillFilePath = path.join(installPath, slug, 'SKILL.md');
+          const skillFilePath = path.join(getSkillDir(slug), 'SKILL.md');
 
           if (fs.existsSync(skillFilePath)) {
             console.log('');
@@ -0,0 +1,320 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as api from '../lib/api.js';
+import * as localRegistry from '../lib/local-registry/index.js';
+import * as lockfile from '../lib/lockfile.js';
+import * as targets from '../lib/targets.js';
+import * as output from '../lib/output.js';
+import * as semverLib from '../lib/semver.js';
+import * as resolver from '../lib/resolver.js';
+import * as dependencies from '../lib/dependencies.js';
+import * as packs from '../lib/packs.js';
+import type { PackSkill, SkillEntry, SkillPack, SkillSource } from '../types.js';
+import { isCloudSource } from '../types.js';
+
+/**
+ * Find the source named by --source, or the local registry when none is given
+ */
+function getPackSource(sourceName: string | undefined): SkillSource | undefined {
+  if (!sourceName) {
+    return undefined;
+  }
+
+  const source = config.configExists() ? config.getSource(sourceName) : undefined;
+  if (!source) {
+    output.fail('NOT_FOUND', `Source '${sourceName}' not found in .skills.yaml.`);
+  }
+  return source;
+}
+
+export const packCommand = new Command('pack')
+  .description('Manage skill packs: named sets of skills added with `skill add pack:<name>`');
+
+// Create a pack
+packCommand
+  .command('create')
+  .description('Create a pack in the local registry, or a cloud registry with --source')
+  .argument('<name>', 'Pack name (lowercase, hyphens allowed)')
+  .argument('[skills...]', 'Skill slugs, optionally with a version constraint (e.g. my-skill@^2.1.0)')
+  .option('-d, --description <desc>', 'Pack description')
+  .option('-s, --source <name>', 'Cloud source to create the pack in (defaults to the local registry)')
+  .option('--from-project', 'Add the skills added directly to the current project')
+  .option('-f, --force', 'Overwrite an existing pack in the local registry')
+  .action(async (name: string, specs: string[], options) => {
+    try {
+      if (!packs.isValidPackName(name)) {
+        output.fail('INVALID_ARGUMENT', 'Pack name must be lowercase alphanumeric with hyphens only.');
+      }
+
+      const source = getPackSource(options.source);
+      const skills: PackSkill[] = specs.map(dependencies.parseRequirement);
+
+      if (options.fromProject) {
+        if (!config.configExists()) {
+          output.fail('NOT_INITIALIZED', '--from-project must be run in a skills project.');
+        }
+        for (const entry of config.readConfig().skills) {
+          if (entry.dependency || skills.some((s) => s.slug === entry.slug)) continue;
+          skills.push({ slug: entry.slug, ...(entry.version ? { version: entry.version } : {}) });
+        }
+      }
+
+      if (skills.length === 0) {
+        output.fail('INVALID_ARGUMENT', 'A pack needs at least one skill.', {
+          hints: [`Pass skill slugs, or ${chalk.cyan('--from-project')} to use the current project's skills.`],
+        });
+      }
+
+      const invalid = skills.filter((s) => s.version && !semverLib.isValidConstraint(s.version));
+      if (invalid.length > 0) {
+        output.fail(
+          'INVALID_ARGUMENT',
+          `Invalid version constraint: ${invalid.map(dependencies.formatRequirement).join(', ')}`,
+          { hints: ['Use an exact version or a semver range, e.g. my-skill@^2.1.0.'] }
+        );
+      }
+
+      const pack: SkillPack = {
+        name,
+        ...(options.description ? { description: options.description } : {}),
+        skills,
+      };
+
+      if (source && isCloudSource(source)) {
+        const spinner = ora(`Creating pack ${name} in ${source.registry}...`).start();
+        await api.createPack(source.registry, pack);
+        spinner.succeed(`Created pack ${chalk.cyan(name)} in ${packs.describeSource(source)}`);
+      } else {
+        if (localRegistry.packExists(name) && !options.force) {
+          output.fail('CONFLICT', `Pack '${name}' already exists.`, {
+            hints: [`Use ${chalk.cyan('--force')} to overwrite it.`],
+          });
+        }
+
+        const missing = skills.filter((s) => !localRegistry.skillExists(s.slug)).map((s) => s.slug);
+        if (missing.length > 0) {
+          output.fail('NOT_FOUND', `Not found in local registry: ${missing.join(', ')}`);
+        }
+
+        // Catch constraints no local version meets now rather than at `skill add pack:<name>`
+        const unmet = skills.flatMap((s) => {
+          if (!s.version) return [];
+          try {
+            resolver.resolveLocalVersion(s.slug, s.version);
+            return [];
+          } catch (error) {
+            return [error instanceof Error ? error.message : String(error)];
+          }
+        });
+        if (unmet.length > 0) {
+          output.fail('NOT_FOUND', unmet.join('\n'));
+        }
+
+        localRegistry.putPack(pack);
+        console.log(chalk.green(`Created pack ${chalk.cyan(name)}`));
+      }
+
+      console.log('');
+      for (const skill of skills) {
+        console.log(`  ${dependencies.formatRequirement(skill)}`);
+      }
+      console.log('');
+      console.log(`Add it to a project with ${chalk.cyan(`skill add pack:${name}${options.source ? ` --source ${options.source}` : ''}`)}.`);
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
+
+// List packs
+packCommand
+  .command('list')
+  .description('List available packs')
+  .option('-s, --source <name>', 'Cloud source to list packs from (defaults to the local registry)')
+  .action(async (options) => {
+    try {
+      const source = getPackSource(options.source);
+      const available = await packs.listPacks(source);
+
+      if (available.length === 0) {
+        console.log(chalk.yellow(`No packs in the ${packs.describeSource(source)}.`));
+        console.log(`Create one with ${chalk.cyan('skill pack create <name> <skills...>')}.`);
+        return;
+      }
+
+      console.log(chalk.bold(`Packs (${packs.describeSource(source)}):`));
+      console.log('');
+
+      const width = Math.max(...available.map((p) => p.name.length)) + 2;
+      for (const pack of available) {
+        console.log(
+          `  ${chalk.cyan(pack.name.padEnd(width))}${pack.description || chalk.gray('(no description)')} ${chalk.gray(`(${pack.skills.length} skill(s))`)}`
+        );
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
+
+// Show a pack
+packCommand
+  .command('show')
+  .description("Show a pack's skills")
+  .argument('<name>', 'Pack name')
+  .option('-s, --source <name>', 'Cloud source the pack is in (defaults to the local registry)')
+  .action(async (name: string, options) => {
+    try {
+      const source = getPackSource(options.source);
+      const pack = await packs.getPack(source, name);
+      if (!pack) {
+        output.fail('NOT_FOUND', `Pack '${name}' not found in the ${packs.describeSource(source)}.`);
+      }
+
+      const projectSkills = config.configExists() ? config.readConfig().skills : null;
+
+      console.log(chalk.bold(pack.name));
+      if (pack.description) {
+        console.log(chalk.gray(pack.description));
+      }
+      console.log('');
+
+      for (const skill of pack.skills) {
+        const inProject = projectSkills?.some((s) => s.slug === skill.slug);
+        const marker = projectSkills ? (inProject ? chalk.green('✓ ') : chalk.gray('○ ')) : '';
+        console.log(`  ${marker}${chalk.cyan(dependencies.formatRequirement(skill))}`);
+      }
+
+      if (projectSkills) {
+        console.log('');
+        const sourceFlag = options.source ? ` --source ${options.source}` : '';
+        console.log(chalk.gray(`✓ in this project. Add the pack with ${chalk.cyan(`skill add pack:${name}${sourceFlag}`)}.`));
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
+
+// Apply changes to packs added to the project
+packCommand
+  .command('update')
+  .description("Apply changes to the project's packs: add new skills, update constraints, remove dropped skills")
+  .argument('[name]', 'Pack to update (defaults to every pack added to the project)')
+  .option('--no-sync', 'Skip automatic sync after updating')
+  .action(async (name: string | undefined, options) => {
+    try {
+      if (!config.configExists()) {
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [`Run ${chalk.cyan('skill init')} first.`],
+        });
+      }
+
+      const recorded = (config.readConfig().packs || []).filter((p) => !name || p.name === name);
+      if (recorded.length === 0) {
+        console.log(chalk.yellow(name ? `Pack '${name}' was not added to this project.` : 'No packs added to this project.'));
+        console.log(`Add one with ${chalk.cyan('skill add pack:<name>')}.`);
+        return;
+      }
+
+      const changedEntries: SkillEntry[] = [];
+      let needsSync = false;
+      let removedAny = false;
+
+      for (const recordedPack of recorded) {
+        const source = recordedPack.source ? config.getSource(recordedPack.source) : config.getDefaultSource();
+        if (recordedPack.source && !source) {
+          console.log(chalk.yellow(`Skipped pack ${recordedPack.name}: source '${recordedPack.source}' not found in .skills.yaml.`));
+          continue;
+        }
+
+        const pack = await packs.getPack(source, recordedPack.name);
+        if (!pack) {
+          console.log(chalk.yellow(`Skipped pack ${recordedPack.name}: not found in the ${packs.describeSource(source)}.`));
+          continue;
+        }
+
+        console.log(chalk.bold(`Pack ${pack.name}`));
+        const entries = config.readConfig().skills;
+        let changed = false;
+
+        // Skills dropped from the pack
+        for (const entry of entries) {
+          if (entry.pack !== pack.name || pack.skills.some((s) => s.slug === entry.slug)) continue;
+          if (fs.isSkillModified(entry.slug)) {
+            console.log(chalk.yellow(`  Kept ${entry.slug}: no longer in the pack, but it has unsaved local edits`));
+            continue;
+          }
+
+          config.removeSkill(entry.slug);
+          if (fs.skillExists(entry.slug)) {
+            fs.deleteSkill(entry.slug);
+          }
+          lockfile.removeLockedSkill(entry.slug);
+          console.log(chalk.green(`  Removed ${chalk.cyan(entry.slug)} ${chalk.gray('(no longer in the pack)')}`));
+          changed = true;
+          removedAny = true;
+        }
+
+        // New skills and changed constraints
+        for (const skill of pack.skills) {
+          const existing = entries.find((e) => e.slug === skill.slug);
+
+          if (!existing) {
+            if ((!source || !isCloudSource(source)) && !localRegistry.skillExists(skill.slug)) {
+              console.log(chalk.yellow(`  Skipped ${skill.slug}: not found in local registry`));
+              continue;
+            }
+            const entry: SkillEntry = {
+              slug: skill.slug,
+              ...(recordedPack.source ? { source: recordedPack.source } : {}),
+              ...(skill.version ? { version: skill.version } : {}),
+              pack: pack.name,
+            };
+            config.addSkill(entry);
+            changedEntries.push(entry);
+            console.log(chalk.green(`  Added ${chalk.cyan(dependencies.formatRequirement(skill))}`));
+            changed = true;
+          } else if (existing.pack === pack.name && existing.version !== skill.version) {
+            const { version: _previous, ...rest } = existing;
+            const updated = skill.version ? { ...rest, version: skill.version } : rest;
+            config.addSkill(updated);
+            changedEntries.push(updated);
+            console.log(chalk.green(`  Updated ${chalk.cyan(dependencies.formatRequirement(skill))}`));
+            changed = true;
+          }
+        }
+
+        if (!changed) {
+          console.log(chalk.gray('  Up to date'));
+        }
+        needsSync = needsSync || changed;
+      }
+
+      // Add the skills new entries require, as `skill add` does
+      if (changedEntries.length > 0) {
+        const plan = await dependencies.planDependencies(changedEntries, config.readConfig().skills);
+        for (const { entry, requiredBy } of plan.dependencies) {
+          config.addSkill(entry);
+          console.log(chalk.green(`  Added ${chalk.cyan(dependencies.formatRequirement(entry))} ${chalk.gray(`required by ${requiredBy}`)}`));
+        }
+        for (const problem of plan.problems) {
+          console.log(chalk.yellow(`  ⚠ ${problem}`));
+        }
+      }
+
+      if (removedAny) {
+        targets.refreshTargets();
+      }
+
+      if (needsSync && options.sync !== false) {
+        console.log('');
+        console.log('Running sync...');
+
+        const { syncCommand } = await import('./sync.js');
+        await syncCommand.parseAsync(['node', 'skill', 'sync']);
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
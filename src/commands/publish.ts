@@ -9,6 +9,7 @@ import * as localRegistry from "../lib/local-registry/index.js";
 import * as auth from "../lib/auth.js";
 import * as readline from "readline";
 import { parseEditorCommand } from "../lib/editor.js";
+import { reconcileMetadata, formatConflict } from "../lib/metadata.js";
 
 /**
  * Prompt user for input
@@ -88,6 +89,7 @@ export const publishCommand = new Command("publish")
   .argument("<slug>", "Skill slug")
   .option("--content <file>", "Read new content from file")
   .option("--no-editor", "Skip editor (use current content)")
+  .option("-m, --message <message>", "Message to record in the skill history")
   .action(async (slug: string, options) => {
     try {
       // Check if skill exists
@@ -158,20 +160,29 @@ export const publishCommand = new Command("publish")
       const spinner = ora(`Saving ${slug}...`).start();
 
       try {
+        // Metadata follows the frontmatter of the new content
+        const { metadata, conflicts } = reconcileMetadata(
+          content,
+          skillInfo.meta,
+          slug,
+        );
+
         // Save to local registry
         const { sha256 } = localRegistry.putSkill({
           slug,
           content,
-          meta: {
-            name: skillInfo.meta.name,
-            description: skillInfo.meta.description,
-            tags: skillInfo.meta.tags,
-            compat: skillInfo.meta.compat,
-          },
+          meta: metadata,
+          message: options.message,
         });
 
         spinner.succeed(`Saved ${chalk.cyan(slug)}`);
 
+        for (const conflict of conflicts) {
+          console.log(
+            chalk.yellow(`  ${formatConflict(conflict)} (from frontmatter)`),
+          );
+        }
+
         console.log("");
         console.log("Details:");
         console.log(
@@ -4,20 +4,53 @@ import ora from 'ora';
 import * as config from '../lib/config.js';
 import * as api from '../lib/api.js';
 import * as fs from '../lib/fs.js';
+import * as localRegistry from '../lib/local-registry/index.js';
 import * as semverLib from '../lib/semver.js';
+import { METADATA_FIELDS, readFrontmatterMetadata, sameValue, formatConflict } from '../lib/metadata.js';
+import type { MetadataConflict, SkillMetadata } from '../lib/metadata.js';
+import { readInstalledSource } from '../lib/compose.js';
+import { hasConflictMarkers } from '../lib/merge.js';
 import { isCloudSource } from '../types.js';
 
+/**
+ * Update a cloud skill's metadata where the frontmatter declares different values
+ *
+ * @returns The fields that were updated
+ */
+async function syncCloudMetadata(
+  registry: string,
+  slug: string,
+  declared: Partial<SkillMetadata>
+): Promise<MetadataConflict[]> {
+  const remote = await api.getSkill(registry, slug);
+  const conflicts: MetadataConflict[] = [];
+  const updates: Partial<SkillMetadata> = {};
+
+  for (const field of METADATA_FIELDS) {
+    const value = declared[field];
+    if (value === undefined || sameValue(value, remote[field])) continue;
+
+    conflicts.push({ field, frontmatter: value, stored: remote[field] ?? '' });
+    Object.assign(updates, { [field]: value });
+  }
+
+  if (conflicts.length > 0) {
+    await api.updateSkill(registry, slug, updates);
+  }
+  return conflicts;
+}
+
 export const pushCommand = new Command('push')
   .description('Publish local skill changes to a cloud registry (requires cloud source)')
   .argument('[slug]', 'Skill slug to push (optional, pushes all modified if not provided)')
   .option('-v, --version <version>', 'Version number for the new version')
   .option('-c, --changelog <message>', 'Changelog message')
   .option('--from-stdin', 'Read skill content from stdin')
-  .option('--create', 'Create a new skill (requires --name)')
-  .option('-n, --name <name>', 'Human-readable name (for --create)')
-  .option('-d, --description <desc>', 'Description (for --create)')
-  .option('-t, --tags <tags>', 'Tags (comma-separated, for --create)')
-  .option('--compat <compat>', 'Compatibility (comma-separated, for --create)')
+  .option('--create', 'Create a new skill (requires a name in frontmatter or --name)')
+  .option('-n, --name <name>', 'Human-readable name (for --create, overrides frontmatter)')
+  .option('-d, --description <desc>', 'Description (for --create, overrides frontmatter)')
+  .option('-t, --tags <tags>', 'Tags (comma-separated, for --create, overrides frontmatter)')
+  .option('--compat <compat>', 'Compatibility (comma-separated, for --create, overrides frontmatter)')
   .action(async (slug: string | undefined, options) => {
     try {
       // Check if initialized
@@ -83,30 +116,47 @@ export const pushCommand = new Command('push')
         try {
           // Get content
           let content: string;
+          let composed: string | null = null;
+          let overrideBase: string | null = null;
           if (stdinContent && skillSlug === slug) {
             content = stdinContent;
           } else {
-            const localContent = fs.readSkillContent(skillSlug);
-            if (!localContent) {
+            // Push include directives, not the content they pull in (nor the project override)
+            const installed = readInstalledSource(skillSlug);
+            if (!installed) {
               spinner.fail(`Skill ${skillSlug} not found locally`);
               continue;
             }
-            content = localContent;
+            content = installed.content;
+            if (installed.composed !== null) {
+              composed = installed.composed;
+            }
+            overrideBase = installed.overrideBase;
+          }
+
+          // Half-merged content would reach every project using the skill
+          if (hasConflictMarkers(content)) {
+            spinner.fail(`${skillSlug}: SKILL.md has unresolved conflict markers; resolve them first`);
+            continue;
           }
 
+          // Metadata comes from frontmatter; flags override it when creating
+          const declared = readFrontmatterMetadata(content);
+
           if (options.create) {
             // Create new skill
-            if (!options.name) {
-              spinner.fail('--name is required when creating a new skill');
+            const name = options.name || declared.name;
+            if (!name) {
+              spinner.fail('A name is required when creating a new skill (add `name` to the frontmatter or use --name)');
               continue;
             }
 
             const result = await api.createSkill(source.registry, {
               slug: skillSlug,
-              name: options.name,
-              description: options.description,
-              tags: options.tags?.split(',').map((t: string) => t.trim()),
-              compat: options.compat?.split(',').map((c: string) => c.trim()),
+              name,
+              description: options.description ?? declared.description,
+              tags: options.tags?.split(',').map((t: string) => t.trim()) ?? declared.tags,
+              compat: options.compat?.split(',').map((c: string) => c.trim()) ?? declared.compat,
               content,
               version: options.version || '1.0.0',
             });
@@ -130,12 +180,32 @@ export const pushCommand = new Command('push')
               changelog: options.changelog,
             });
 
-            // Clear modified marker
-            fs.unmarkSkillModified(skillSlug);
-
             spinner.succeed(
               `Pushed ${chalk.cyan(skillSlug)} v${result.version} to ${source.registry}`
             );
+
+            // Bring the registry's metadata in line with the frontmatter
+            const conflicts = await syncCloudMetadata(source.registry, skillSlug, declared);
+            for (const conflict of conflicts) {
+              console.log(chalk.yellow(`  ${formatConflict(conflict)} (from frontmatter)`));
+            }
+          }
+
+          // The installed SKILL.md now matches what was pushed (supporting files stay local)
+          if (!(stdinContent && skillSlug === slug)) {
+            fs.markSkillSaved(skillSlug, {
+              files: false,
+              ...(composed !== null ? { sha256: localRegistry.writeObject(composed) } : {}),
+              ...(overrideBase !== null ? { overrideBase: localRegistry.writeObject(overrideBase) } : {}),
+            });
+          }
+
+          // The cloud API stores SKILL.md only
+          const fileCount = Object.keys(fs.readSkillFiles(skillSlug)).length;
+          if (fileCount > 0) {
+            console.log(
+              chalk.yellow(`  ⚠ ${fileCount} supporting file(s) were not pushed (cloud registries store SKILL.md only)`)
+            );
           }
         } catch (error) {
           spinner.fail(error instanceof Error ? error.message : String(error));
@@ -2,6 +2,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as api from '../lib/api.js';
+import * as output from '../lib/output.js';
 
 export const registryCommand = new Command('registry')
   .description('Manage registries');
@@ -12,10 +13,15 @@ registryCommand
   .description('List all accessible registries')
   .action(async () => {
     try {
-      const spinner = ora('Fetching registries...').start();
+      const spinner = output.spinner('Fetching registries...').start();
       const registries = await api.listRegistries();
       spinner.stop();
 
+      if (output.isJsonMode()) {
+        output.printJson({ registries });
+        return;
+      }
+
       if (registries.length === 0) {
         console.log(chalk.yellow('No registries found.'));
         return;
@@ -34,8 +40,7 @@ registryCommand
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -57,8 +62,7 @@ registryCommand
 
       spinner.succeed(`Created registry ${chalk.cyan(registry.slug)}`);
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -69,10 +73,15 @@ registryCommand
   .argument('<slug>', 'Registry slug')
   .action(async (slug: string) => {
     try {
-      const spinner = ora('Fetching members...').start();
+      const spinner = output.spinner('Fetching members...').start();
       const members = await api.listMembers(slug);
       spinner.stop();
 
+      if (output.isJsonMode()) {
+        output.printJson({ registry: slug, members });
+        return;
+      }
+
       if (members.length === 0) {
         console.log(chalk.yellow('No members found.'));
         return;
@@ -86,8 +95,7 @@ registryCommand
         console.log(`  ${member.username.padEnd(20)} ${roleColor(member.role)}`);
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -111,8 +119,7 @@ registryCommand
       await api.inviteMember(slug, options.email, options.role as 'member' | 'contributor' | 'admin');
       spinner.succeed(`Invited ${chalk.cyan(options.email)} as ${options.role} to ${slug}`);
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -122,10 +129,15 @@ registryCommand
   .description('List pending invitations for your account')
   .action(async () => {
     try {
-      const spinner = ora('Fetching invitations...').start();
+      const spinner = output.spinner('Fetching invitations...').start();
       const invitations = await api.listInvitations();
       spinner.stop();
 
+      if (output.isJsonMode()) {
+        output.printJson({ invitations });
+        return;
+      }
+
       if (invitations.length === 0) {
         console.log(chalk.gray('No pending invitations.'));
         return;
@@ -142,8 +154,7 @@ registryCommand
         console.log('');
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -159,8 +170,7 @@ registryCommand
       await api.acceptInvitation(registry, invitationId);
       spinner.succeed(`Joined registry ${chalk.cyan(registry)}`);
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
 
@@ -176,7 +186,6 @@ registryCommand
       await api.declineInvitation(registry, invitationId);
       spinner.succeed('Invitation declined');
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -2,12 +2,27 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import * as config from '../lib/config.js';
 import * as fs from '../lib/fs.js';
-import * as indexGen from '../lib/index-gen.js';
+import * as targets from '../lib/targets.js';
+import * as lockfile from '../lib/lockfile.js';
+import * as dependencies from '../lib/dependencies.js';
+
+/**
+ * Delete an installed skill and its lock entry
+ */
+function uninstallSkill(slug: string): void {
+  if (fs.skillExists(slug)) {
+    fs.deleteSkill(slug);
+  }
+
+  // Drop the pinned entry from .skills.lock
+  lockfile.removeLockedSkill(slug);
+}
 
 export const removeCommand = new Command('remove')
   .description('Remove one or more skills from the project')
   .argument('<slugs...>', 'Skill slugs to remove')
-  .action(async (slugs: string[]) => {
+  .option('--no-prune', 'Keep skills that were only added because a removed skill required them')
+  .action(async (slugs: string[], options) => {
     try {
       // Check if initialized
       if (!config.configExists()) {
@@ -35,19 +50,32 @@ export const removeCommand = new Command('remove')
           continue;
         }
 
-        // Delete from disk
-        if (fs.skillExists(slug)) {
-          fs.deleteSkill(slug);
+        uninstallSkill(slug);
+
+        console.log(chalk.green(`Removed ${chalk.cyan(slug)}`));
+
+        const requiredBy = dependencies.findRequiredBy(slug);
+        if (requiredBy.length > 0) {
+          console.log(chalk.yellow(`  Still required by ${requiredBy.join(', ')}; the next \`skill add\` of those will add it back`));
         }
+      }
 
-        // Remove symlink from .claude/skills/
-        fs.removeClaudeNativeSkill(slug);
+      // Prune dependencies that nothing requires any more
+      if (options.prune !== false) {
+        for (const slug of dependencies.findUnneededDependencies(config.readConfig().skills)) {
+          if (fs.isSkillModified(slug)) {
+            console.log(chalk.yellow(`Kept ${slug}: no longer required, but it has unsaved local edits. Run ${chalk.cyan(`skill remove ${slug}`)} to remove it.`));
+            continue;
+          }
 
-        console.log(chalk.green(`Removed ${chalk.cyan(slug)}`));
+          config.removeSkill(slug);
+          uninstallSkill(slug);
+          console.log(chalk.green(`Removed ${chalk.cyan(slug)} ${chalk.gray('(no longer required)')}`));
+        }
       }
 
-      // Regenerate index once after all removals
-      indexGen.regenerateIndex();
+      // Regenerate SKILLS_INDEX.md and agent targets once after all removals
+      targets.refreshTargets();
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
@@ -8,7 +8,8 @@ import ora from 'ora';
 import * as localRegistry from '../lib/local-registry/index.js';
 import * as projectConfig from '../lib/config.js';
 import * as projectFs from '../lib/fs.js';
-import * as indexGen from '../lib/index-gen.js';
+import * as targets from '../lib/targets.js';
+import { applyMetadataToContent } from '../lib/metadata.js';
 
 function createQuestionInterface(): readline.Interface {
   return readline.createInterface({
@@ -53,7 +54,18 @@ function validateSlug(params: { slug: string }): void {
   }
 }
 
-function renameInRegistry(params: { oldSlug: string; newSlug: string; newName: string }): void {
+/**
+ * Rename a skill in the local registry
+ *
+ * @param params.frontmatter Rewrite `name` in SKILL.md as a new revision
+ * @returns The rewritten SKILL.md content, or null if it was left as is
+ */
+function renameInRegistry(params: {
+  oldSlug: string;
+  newSlug: string;
+  newName: string;
+  frontmatter: boolean;
+}): string | null {
   const { oldSlug, newSlug, newName } = params;
 
   const existingMeta = localRegistry.readMeta(oldSlug);
@@ -61,6 +73,11 @@ function renameInRegistry(params: { oldSlug: string; newSlug: string; newName: s
     throw new Error(`Could not read metadata for '${oldSlug}' in local registry.`);
   }
 
+  // Prepare the new content up front so invalid frontmatter aborts before anything moves
+  const current = params.frontmatter ? localRegistry.getSkill(oldSlug) : null;
+  const rewritten = current ? applyMetadataToContent(current.content, { name: newName }) : null;
+  const content = current && rewritten !== current.content ? rewritten : null;
+
   // Rename the skill directory if the slug changed
   if (oldSlug !== newSlug) {
     const oldDir = localRegistry.getSkillDir(oldSlug);
@@ -86,13 +103,36 @@ function renameInRegistry(params: { oldSlug: string; newSlug: string; newName: s
   };
 
   localRegistry.writeMeta(newSlug, updatedMeta);
+
+  if (content !== null) {
+    localRegistry.putSkill({
+      slug: newSlug,
+      content,
+      meta: updatedMeta,
+      message: `Rename to ${newName}`
+    });
+  }
+
+  return content;
 }
 
-function renameInProject(params: { oldSlug: string; newSlug: string; newName: string }): void {
-  const { oldSlug, newSlug, newName } = params;
+/**
+ * Rename a skill in the current project, if installed
+ *
+ * @param params.content Rewritten SKILL.md, applied to the installed copy unless it has local edits
+ * @returns Whether the installed SKILL.md was updated
+ */
+function renameInProject(params: {
+  oldSlug: string;
+  newSlug: string;
+  newName: string;
+  content: string | null;
+}): boolean {
+  const { oldSlug, newSlug, newName, content } = params;
+  let contentUpdated = false;
 
   if (!projectConfig.configExists()) {
-    return;
+    return false;
   }
 
   const skillsConfig = projectConfig.readConfig();
@@ -119,9 +159,11 @@ function renameInProject(params: { oldSlug: string; newSlug: string; newName: st
 
   // Rename installed skill directory in the project, if present
   const projectOldDir = projectFs.getSkillDir(oldSlug);
-  const projectNewDir = projectFs.getSkillDir(newSlug);
+  const projectNewDir = path.join(path.dirname(projectOldDir), newSlug);
 
   if (nodeFs.existsSync(projectOldDir)) {
+    const modified = projectFs.isSkillModified(oldSlug);
+
     if (nodeFs.existsSync(projectNewDir)) {
       throw new Error(
         `Cannot rename project skill directory: target '${newSlug}' already exists at ${projectNewDir}.`
@@ -139,19 +181,28 @@ function renameInProject(params: { oldSlug: string; newSlug: string; newName: st
         name: newName
       };
       const metaPath = path.join(projectFs.getSkillDir(newSlug), 'meta.yaml');
-      const content = yaml.stringify(updatedProjectMeta, { lineWidth: 0 });
-      nodeFs.writeFileSync(metaPath, content, 'utf-8');
+      nodeFs.writeFileSync(metaPath, yaml.stringify(updatedProjectMeta, { lineWidth: 0 }), 'utf-8');
+    }
+
+    // Local edits are left alone; they pick up the new name on the next save
+    if (content !== null && !modified) {
+      nodeFs.writeFileSync(path.join(projectNewDir, 'SKILL.md'), content, 'utf-8');
+      projectFs.markSkillSaved(newSlug, { files: false });
+      contentUpdated = true;
     }
   }
 
-  // Regenerate SKILLS_INDEX.md if we are in a project
-  indexGen.regenerateIndex();
+  // Regenerate SKILLS_INDEX.md and agent targets if we are in a project
+  targets.refreshTargets();
+
+  return contentUpdated;
 }
 
 export const renameCommand = new Command('rename')
   .description('Rename a skill (updates slug and display name)')
   .argument('<slug>', 'Current skill slug')
-  .action(async (slug: string) => {
+  .option('--no-frontmatter', "Don't rewrite the name in SKILL.md frontmatter")
+  .action(async (slug: string, options: { frontmatter: boolean }) => {
     try {
       if (!localRegistry.skillExists(slug)) {
         console.log(chalk.red(`Error: Skill '${slug}' not found in local registry.`));
@@ -207,14 +258,29 @@ export const renameCommand = new Command('rename')
       const spinner = ora('Renaming skill...').start();
 
       try {
-        renameInRegistry({ oldSlug: slug, newSlug, newName });
-        renameInProject({ oldSlug: slug, newSlug, newName });
+        const content = renameInRegistry({
+          oldSlug: slug,
+          newSlug,
+          newName,
+          frontmatter: options.frontmatter
+        });
+        const projectUpdated = renameInProject({ oldSlug: slug, newSlug, newName, content });
 
         spinner.succeed(`Renamed skill to ${chalk.cyan(newSlug)}`);
         console.log('');
         console.log('Updated details:');
         console.log(`  ${chalk.bold('Slug:')}        ${chalk.cyan(newSlug)}`);
         console.log(`  ${chalk.bold('Name:')}        ${newName}`);
+
+        if (content !== null) {
+          console.log('');
+          console.log(chalk.gray('Updated the name in SKILL.md frontmatter (saved as a new revision).'));
+          if (!projectUpdated && projectConfig.configExists() && nodeFs.existsSync(projectFs.getSkillDir(newSlug))) {
+            console.log(
+              chalk.yellow(`The installed copy has local edits; run ${chalk.cyan(`skill save ${newSlug}`)} after updating its frontmatter.`)
+            );
+          }
+        }
       } catch (error) {
         spinner.fail('Failed to rename skill');
         throw error;
@@ -1,40 +1,20 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import * as yaml from 'yaml';
 import * as config from '../lib/config.js';
 import * as localRegistry from '../lib/local-registry/index.js';
 import * as fs from '../lib/fs.js';
-import * as indexGen from '../lib/index-gen.js';
-
-function extractDescriptionFromSkillContent(content: string): string | undefined {
-  const match = content.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
-  if (!match) {
-    return undefined;
-  }
-
-  try {
-    const frontmatter = yaml.parse(match[1]);
-    if (!frontmatter || typeof frontmatter !== 'object') {
-      return undefined;
-    }
-
-    for (const [key, value] of Object.entries(frontmatter as Record<string, unknown>)) {
-      if (key.toLowerCase() === 'description' && typeof value === 'string') {
-        return value;
-      }
-    }
-  } catch {
-    return undefined;
-  }
-
-  return undefined;
-}
+import * as targets from '../lib/targets.js';
+import { reconcileMetadata, formatConflict } from '../lib/metadata.js';
+import { readInstalledSource } from '../lib/compose.js';
+import { hasConflictMarkers } from '../lib/merge.js';
+import type { MetadataConflict } from '../lib/metadata.js';
 
 export const saveCommand = new Command('save')
   .description('Save local skill changes back to the registry')
   .argument('[slug]', 'Skill slug to save (optional, saves all modified if not provided)')
-  .action(async (slug?: string) => {
+  .option('-m, --message <message>', 'Message to record in the skill history')
+  .action(async (slug: string | undefined, options) => {
     try {
       // Check if initialized
       if (!config.configExists()) {
@@ -57,7 +37,7 @@ export const saveCommand = new Command('save')
         }
         skillsToUpdate = [slug];
       } else {
-        // All modified skills
+        // All skills edited since they were last synced (by content hash)
         const localSkills = fs.listLocalSkills();
         for (const localSlug of localSkills) {
           if (fs.isSkillModified(localSlug)) {
@@ -67,7 +47,7 @@ export const saveCommand = new Command('save')
 
         if (skillsToUpdate.length === 0) {
           console.log(chalk.yellow('No modified skills to save.'));
-          console.log(`Edit a skill with ${chalk.cyan('skill open <slug>')} first, or specify a slug directly.`);
+          console.log(`Edit a skill's SKILL.md in ${chalk.cyan(config.getInstallPath())} first, or specify a slug directly.`);
           return;
         }
       }
@@ -76,37 +56,58 @@ export const saveCommand = new Command('save')
 
       let updated = 0;
       const errors: Array<{ slug: string; error: string }> = [];
+      const conflicts = new Map<string, MetadataConflict[]>();
 
       for (const skillSlug of skillsToUpdate) {
         try {
-          // Read content from project
-          const content = fs.readSkillContent(skillSlug);
-          if (!content) {
+          // Read content from project; included skills are saved as their directives
+          const installed = readInstalledSource(skillSlug);
+          if (!installed) {
             errors.push({ slug: skillSlug, error: 'Could not read SKILL.md from project' });
             continue;
           }
+          const content = installed.content;
+          const files = fs.readSkillFiles(skillSlug);
+
+          // Half-merged content would reach every project using the skill
+          const conflicted = [
+            ...(hasConflictMarkers(content) ? ['SKILL.md'] : []),
+            ...Object.keys(files).filter((file) => hasConflictMarkers(files[file].toString('utf-8'))),
+          ];
+          if (conflicted.length > 0) {
+            errors.push({
+              slug: skillSlug,
+              error: `Unresolved conflict markers in ${conflicted.join(', ')}; resolve them first`,
+            });
+            continue;
+          }
 
-          // Get existing meta from registry (or project)
+          // Frontmatter is the source of truth for metadata; fields it doesn't
+          // declare keep their values from the registry (or project) meta.yaml
           const existingMeta = localRegistry.readMeta(skillSlug) || fs.readSkillMeta(skillSlug);
-          const name = existingMeta?.name || skillSlug;
-          const description = extractDescriptionFromSkillContent(content) ?? existingMeta?.description;
-          const tags = existingMeta?.tags || [];
-          const compat = existingMeta?.compat || [];
+          const { metadata, conflicts: skillConflicts } = reconcileMetadata(content, existingMeta, skillSlug);
+          if (skillConflicts.length > 0) {
+            conflicts.set(skillSlug, skillConflicts);
+          }
 
           // Save to local registry
           const { sha256 } = localRegistry.putSkill({
             slug: skillSlug,
             content,
-            meta: {
-              name,
-              description,
-              tags,
-              compat,
-            },
+            files,
+            meta: metadata,
+            message: options.message,
           });
 
-          // Clear modified marker
-          fs.unmarkSkillModified(skillSlug);
+          // The installed copy now matches the registry. A composed copy stays
+          // installed as is, and is kept in the object store as the merge base.
+          fs.markSkillSaved(skillSlug, {
+            sha256: installed.composed !== null ? localRegistry.writeObject(installed.composed) : sha256,
+            metadata,
+            ...(installed.overrideBase !== null
+              ? { overrideBase: localRegistry.writeObject(installed.overrideBase) }
+              : {}),
+          });
 
           updated++;
         } catch (error) {
@@ -117,8 +118,8 @@ export const saveCommand = new Command('save')
         }
       }
 
-      // Regenerate index
-      indexGen.regenerateIndex();
+      // Regenerate SKILLS_INDEX.md and agent targets
+      targets.refreshTargets();
 
       spinner.succeed(`Saved ${updated} skill(s) to registry`);
 
@@ -126,6 +127,9 @@ export const saveCommand = new Command('save')
       for (const skillSlug of skillsToUpdate) {
         if (!errors.find((e) => e.slug === skillSlug)) {
           console.log(`  ${chalk.green('✓')} ${chalk.cyan(skillSlug)}`);
+          for (const conflict of conflicts.get(skillSlug) || []) {
+            console.log(chalk.yellow(`      ${formatConflict(conflict)} (from frontmatter)`));
+          }
         }
       }
 
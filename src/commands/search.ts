@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import * as localRegistry from '../lib/local-registry/index.js';
+import * as output from '../lib/output.js';
 
 export const searchCommand = new Command('search')
   .description('Search for skills in the local registry')
@@ -28,6 +29,21 @@ export const searchCommand = new Command('search')
         );
       }
 
+      if (output.isJsonMode()) {
+        output.printJson({
+          query,
+          results: results.map((skill) => ({
+            slug: skill.slug,
+            name: skill.meta.name,
+            description: skill.meta.description ?? null,
+            tags: skill.meta.tags,
+            compat: skill.meta.compat,
+            matchedOn: skill.matchedOn,
+          })),
+        });
+        return;
+      }
+
       if (results.length === 0) {
         console.log(chalk.yellow(`No skills found matching "${query}".`));
         console.log('');
@@ -55,7 +71,6 @@ export const searchCommand = new Command('search')
         }
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -0,0 +1,238 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as resolver from '../lib/resolver.js';
+import * as output from '../lib/output.js';
+import * as overrides from '../lib/overrides.js';
+import { hasConflictMarkers } from '../lib/merge.js';
+import { sameManifest, toManifest } from '../lib/skill-files.js';
+import type { SkillFileChange } from '../lib/skill-files.js';
+import { isCloudSource } from '../types.js';
+
+/**
+ * Drift report for one configured skill
+ */
+interface SkillStatus {
+  slug: string;
+  source: string | null;
+  installed: boolean;
+  synced: boolean; // Has a meta.yaml with the hashes recorded by sync
+  edited: { content: boolean; files: SkillFileChange[] } | null;
+  conflicted: string[]; // Edited files that still contain merge conflict markers
+  behind: { registry: string; version: string | null } | null; // registry is 'local' or the cloud source name
+  checked: boolean; // False for cloud skills skipped with --offline
+  error: string | null; // Source error while resolving
+  override: string | null; // Why the project override no longer applies cleanly
+}
+
+export const statusCommand = new Command('status')
+  .description('Show project drift: missing, edited and outdated skills, orphaned directories and broken links')
+  .option('--offline', 'Skip checks against cloud registries')
+  .action(async (options) => {
+    try {
+      // Check if initialized
+      if (!config.configExists()) {
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [`Run ${chalk.cyan('skill init')} first.`],
+        });
+      }
+
+      const skillsConfig = config.readConfig();
+      const configuredSlugs = skillsConfig.skills.map((s) => s.slug);
+
+      // Resolve what a sync would install now, to detect installed copies that are behind
+      const entriesToCheck = options.offline
+        ? skillsConfig.skills.filter((entry) => {
+            const source = config.getSourceForSkill(entry);
+            return !source || !isCloudSource(source);
+          })
+        : skillsConfig.skills;
+
+      const spinner = output.spinner('Checking skills...').start();
+      const { skills: resolvedSkills, errors } = await resolver.resolveSkills(entriesToCheck, { persist: false });
+      spinner.stop();
+
+      const statuses: SkillStatus[] = skillsConfig.skills.map((entry) => {
+        const source = config.getSourceForSkill(entry);
+        const isCloud = !!source && isCloudSource(source);
+        const error = errors.find((e) => e.slug === entry.slug);
+        const status: SkillStatus = {
+          slug: entry.slug,
+          source: source?.name ?? null,
+          installed: fs.skillExists(entry.slug),
+          synced: false,
+          edited: null,
+          conflicted: [],
+          behind: null,
+          checked: !options.offline || !isCloud,
+          error: error && !error.override ? error.error : null,
+          override: error?.override ? error.error : null,
+        };
+
+        if (!status.installed) {
+          return status;
+        }
+
+        const meta = fs.readSkillMeta(entry.slug);
+        const modification = fs.getSkillModification(entry.slug);
+        status.synced = !!modification;
+        if (modification && (modification.content || modification.files.length > 0)) {
+          status.edited = {
+            content: modification.content,
+            files: modification.files,
+          };
+
+          // A sync that merged local edits may have left conflict markers behind
+          const content = modification.content ? fs.readSkillContent(entry.slug) : null;
+          const files = modification.files.length > 0 ? fs.readSkillFiles(entry.slug) : {};
+          status.conflicted = [
+            ...(content !== null && hasConflictMarkers(content) ? ['SKILL.md'] : []),
+            ...modification.files
+              .filter((change) => files[change.path] && hasConflictMarkers(files[change.path].toString('utf-8')))
+              .map((change) => change.path),
+          ];
+        }
+
+        const resolved = resolvedSkills.find((s) => s.slug === entry.slug);
+        if (resolved && meta?.sha256) {
+          const behind =
+            resolved.sha256 !== meta.sha256 || !sameManifest(meta.files, toManifest(resolved.files));
+          if (behind) {
+            status.behind = {
+              registry: isCloud ? source!.name : 'local',
+              version: resolved.version ?? null,
+            };
+          }
+        }
+
+        return status;
+      });
+
+      // Directories written by sync for skills no longer in .skills.yaml
+      const orphaned = fs.findOrphanedSkillDirs(configuredSlugs);
+
+      // Symlinks in .claude/skills pointing at skills that no longer exist
+      const brokenLinks = fs.findBrokenNativeSkillLinks();
+
+      // Overrides for skills no longer in .skills.yaml
+      const unusedOverrides = overrides.listOverrideSlugs().filter((slug) => !configuredSlugs.includes(slug));
+
+      const drift =
+        statuses.filter((s) => !s.installed || !s.synced || s.edited || s.behind || s.error || s.override).length +
+        orphaned.length +
+        brokenLinks.length +
+        unusedOverrides.length;
+
+      if (output.isJsonMode()) {
+        const data = { skills: statuses, orphaned, brokenLinks, unusedOverrides, problems: drift };
+        if (drift > 0) {
+          output.fail('DRIFT', `${drift} problem(s) found.`, { data });
+        }
+        output.printJson(data);
+        return;
+      }
+
+      if (skillsConfig.skills.length === 0) {
+        console.log(chalk.yellow('No skills configured in this project.'));
+      } else {
+        console.log(chalk.bold('Project Skills:'));
+        console.log('');
+      }
+
+      for (const status of statuses) {
+        const name = status.slug.padEnd(25);
+        const problems: string[] = [];
+
+        if (status.error) {
+          problems.push(chalk.red(`source error: ${status.error}`));
+        }
+
+        if (status.override) {
+          problems.push(chalk.red(status.override));
+        }
+
+        if (!status.installed) {
+          console.log(`  ${chalk.red('✗')} ${chalk.cyan(name)}${[chalk.red('not installed'), ...problems].join('; ')}`);
+          continue;
+        }
+
+        if (!status.synced) {
+          problems.push(chalk.yellow('no sync record (meta.yaml missing)'));
+        } else if (status.conflicted.length > 0) {
+          problems.push(chalk.red(`conflicted: ${status.conflicted.join(', ')}`));
+        } else if (status.edited) {
+          const changes = [
+            ...(status.edited.content ? ['SKILL.md'] : []),
+            ...status.edited.files.map((change) => `${change.path} (${change.status})`),
+          ];
+          problems.push(chalk.yellow(`edited: ${changes.join(', ')}`));
+        }
+
+        if (status.behind) {
+          const where = status.behind.registry === 'local'
+            ? 'local registry'
+            : `cloud registry (${status.behind.registry})`;
+          const version = status.behind.version ? ` → v${status.behind.version}` : '';
+          problems.push(chalk.magenta(`behind ${where}${version}`));
+        }
+
+        if (problems.length === 0) {
+          const note = status.checked ? 'up to date' : 'up to date (cloud not checked)';
+          console.log(`  ${chalk.green('✓')} ${chalk.cyan(name)}${chalk.gray(note)}`);
+          continue;
+        }
+
+        const marker =
+          status.conflicted.length > 0 ? chalk.red('C') : status.edited ? chalk.yellow('M') : chalk.magenta('!');
+        console.log(`  ${marker} ${chalk.cyan(name)}${problems.join('; ')}`);
+      }
+
+      if (orphaned.length > 0) {
+        console.log('');
+        console.log(chalk.bold('Orphaned skill directories (not in .skills.yaml):'));
+        for (const slug of orphaned) {
+          console.log(`  ${chalk.red('✗')} ${slug}`);
+        }
+      }
+
+      if (brokenLinks.length > 0) {
+        console.log('');
+        console.log(chalk.bold('Broken symlinks in .claude/skills:'));
+        for (const link of brokenLinks) {
+          console.log(`  ${chalk.red('✗')} ${link}`);
+        }
+      }
+
+      if (unusedOverrides.length > 0) {
+        console.log('');
+        console.log(chalk.bold(`Overrides in ${overrides.OVERRIDES_DIR}/ for skills not in .skills.yaml:`));
+        for (const slug of unusedOverrides) {
+          console.log(`  ${chalk.red('✗')} ${slug}`);
+        }
+      }
+
+      console.log('');
+      if (drift === 0) {
+        console.log(chalk.green('Project is in sync.'));
+        return;
+      }
+
+      console.log(chalk.yellow(`${drift} problem(s) found.`));
+      console.log(`  ${chalk.cyan('skill sync')}          Install missing and outdated skills, fix symlinks`);
+      console.log(`  ${chalk.cyan('skill save <slug>')}   Keep local edits`);
+      console.log(`  ${chalk.cyan('skill diff <slug>')}   Review local edits`);
+      if (statuses.some((s) => s.conflicted.length > 0)) {
+        console.log(`  Resolve the conflict markers in conflicted skills before saving them`);
+      }
+      if (orphaned.length > 0) {
+        console.log(`  Delete orphaned directories, or re-add them with ${chalk.cyan('skill add <slug>')}`);
+      }
+      if (statuses.some((s) => s.override)) {
+        console.log(`  Update overrides in ${overrides.OVERRIDES_DIR}/ that no longer apply to the registry content`);
+      }
+      process.exit(1);
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
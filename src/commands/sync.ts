@@ -1,123 +1,318 @@
 import { Command } from "commander";
 import chalk from "chalk";
-import ora from "ora";
 import * as config from "../lib/config.js";
-import * as localRegistry from "../lib/local-registry/index.js";
 import * as fs from "../lib/fs.js";
-import * as indexGen from "../lib/index-gen.js";
-import { META_SKILL_CONTENT } from "../lib/meta-skill.js";
-import type { SkillMeta } from "../types.js";
+import * as targets from "../lib/targets.js";
+import * as resolver from "../lib/resolver.js";
+import * as lockfile from "../lib/lockfile.js";
+import * as output from "../lib/output.js";
+import * as projects from "../lib/projects.js";
+import * as localRegistry from "../lib/local-registry/index.js";
+import { mergeSkill } from "../lib/merge.js";
+import type { MergeStrategy, SkillMergeResult, SkillTree } from "../lib/merge.js";
+import { sameManifest, toManifest } from "../lib/skill-files.js";
+
+/**
+ * Merge local edits to an installed skill with the newly resolved content,
+ * using the last-synced content (recorded in meta.yaml) as the common base
+ *
+ * @returns The merge result, or null if the skill has no local edits or the
+ * registry has nothing new to merge into them
+ */
+function mergeLocalEdits(
+  resolved: resolver.ResolvedSkill,
+  strategy?: MergeStrategy,
+): SkillMergeResult | null {
+  const meta = fs.readSkillMeta(resolved.slug);
+  const content = fs.readSkillContent(resolved.slug);
+  if (!meta || content === null || !fs.isSkillModified(resolved.slug)) {
+    return null;
+  }
+  if (resolved.sha256 === meta.sha256 && sameManifest(meta.files, toManifest(resolved.files))) {
+    return null;
+  }
+
+  // The base may be missing if the object store was pruned; the merge then
+  // treats every difference between the two sides as a conflict
+  const baseContent = localRegistry.readObject(meta.sha256);
+  const base: SkillTree | null =
+    baseContent === null
+      ? null
+      : {
+          content: baseContent,
+          files: localRegistry.readSkillFiles(meta.files) || {},
+        };
+
+  return mergeSkill(
+    base,
+    { content, files: fs.readSkillFiles(resolved.slug) },
+    { content: resolved.content, files: resolved.files },
+    { ours: "installed", theirs: `registry (${resolved.source})` },
+    strategy,
+  );
+}
 
 export const syncCommand = new Command("sync")
-  .description("Sync all configured skills from local registry to project")
-  .action(async () => {
+  .description("Sync all configured skills from their sources (local or cloud) to project")
+  .option(
+    "--frozen",
+    "Fail if the resolved skill content does not match .skills.lock",
+  )
+  .option("--ours", "Resolve merge conflicts with local edits in favor of the installed copy")
+  .option("--theirs", "Resolve merge conflicts with local edits in favor of the registry")
+  .action(async (options) => {
     try {
+      if (options.ours && options.theirs) {
+        output.fail(
+          "INVALID_ARGUMENT",
+          "--ours and --theirs cannot be used together.",
+        );
+      }
+      const strategy: MergeStrategy | undefined = options.ours
+        ? "ours"
+        : options.theirs
+          ? "theirs"
+          : undefined;
+
       // Check if initialized
       if (!config.configExists()) {
-        console.log(chalk.red("Error: Not in a skills project."));
-        console.log(`Run ${chalk.cyan("skill init")} first.`);
-        process.exit(1);
+        output.fail("NOT_INITIALIZED", "Not in a skills project.", {
+          hints: [`Run ${chalk.cyan("skill init")} first.`],
+        });
       }
 
       const skillsConfig = config.readConfig();
 
       if (skillsConfig.skills.length === 0) {
+        if (output.isJsonMode()) {
+          output.printJson({ synced: [], merged: [], conflicts: [], errors: [] });
+          return;
+        }
         console.log(chalk.yellow("No skills configured."));
         console.log(`Run ${chalk.cyan("skill add <slug>")} to add skills.`);
         return;
       }
 
-      const spinner = ora("Syncing skills...").start();
+      const lock = lockfile.readLockfile();
+
+      if (options.frozen && !lock) {
+        output.fail("LOCK_MISMATCH", "No .skills.lock found.", {
+          hints: [
+            `Run ${chalk.cyan("skill sync")} without --frozen to create it.`,
+          ],
+        });
+      }
+
+      const spinner = output.spinner("Resolving skills...").start();
+
+      // Resolve each entry from its source (local registry or cloud)
+      const { skills: resolvedSkills, errors } =
+        await resolver.resolveSkills(skillsConfig.skills);
+
+      if (options.frozen && lock) {
+        // Serve pinned content straight from the object store when a source
+        // can't provide it (e.g. offline, or missing from this registry)
+        for (const error of [...errors]) {
+          const locked = lockfile.findLockedSkill(lock, error.slug);
+          const pinned = locked ? resolver.resolveFromObjectStore(locked) : null;
+          if (pinned) {
+            resolvedSkills.push(pinned);
+            errors.splice(errors.indexOf(error), 1);
+          }
+        }
+
+        const mismatches = lockfile.compareWithLock(
+          lock,
+          skillsConfig.skills.map((s) => s.slug),
+          resolvedSkills.map(resolver.toLockedSkill),
+        );
+
+        if (mismatches.length > 0 || errors.length > 0) {
+          spinner.fail("Skills do not match .skills.lock");
+          if (output.isJsonMode()) {
+            output.fail("LOCK_MISMATCH", "Skills do not match .skills.lock", {
+              data: { mismatches, errors },
+            });
+          }
+          console.log("");
+          for (const mismatch of mismatches) {
+            console.log(
+              `  ${chalk.red("✗")} ${mismatch.slug}: ${mismatch.reason}`,
+            );
+          }
+          for (const error of errors) {
+            console.log(`  ${chalk.red("✗")} ${error.slug}: ${error.error}`);
+          }
+          console.log("");
+          console.log(
+            `Run ${chalk.cyan("skill sync")} without --frozen to update .skills.lock.`,
+          );
+          process.exit(1);
+        }
+      }
 
       // Ensure install directory exists
       fs.ensureDir(config.getInstallPath());
 
       // Track statistics
       let updated = 0;
-      const errors: Array<{ slug: string; error: string }> = [];
-      const skills: SkillMeta[] = [];
       const syncedSlugs: string[] = [];
 
-      // Process each skill — always install latest from registry
-      for (const skillEntry of skillsConfig.skills) {
-        const { slug } = skillEntry;
+      const merged: string[] = [];
+      const conflicted: { slug: string; paths: string[] }[] = [];
 
-        // Check if skill exists in local registry
-        if (!localRegistry.skillExists(slug)) {
-          errors.push({
-            slug,
-            error: `Not found in local cache. Run ${chalk.cyan(`skill new ${slug}`)} or ${chalk.cyan("skill import")}`,
-          });
-          continue;
-        }
+      spinner.text = "Syncing skills...";
+
+      // Write each resolved skill to the project — always the latest from its
+      // source, with any local edits merged on top
+      for (const resolved of resolvedSkills) {
+        const merge = mergeLocalEdits(resolved, strategy);
 
-        // Get the skill content from local registry
-        const skillData = localRegistry.getSkill(slug);
-        if (!skillData) {
-          errors.push({
-            slug,
-            error: `Failed to read from cache (possibly corrupted)`,
-          });
+        // Unsaved edits with nothing new from the registry: leave the copy alone
+        if (!merge && fs.isSkillModified(resolved.slug)) {
+          updated++;
+          syncedSlugs.push(resolved.slug);
           continue;
         }
 
-        // Build metadata for project install
-        const meta: Omit<SkillMeta, "sha256"> = {
-          slug,
-          name: skillData.meta.name,
-          description: skillData.meta.description,
-          tags: skillData.meta.tags,
-          compat: skillData.meta.compat,
-        };
-
-        // Write skill to project
         fs.writeSkill(
           {
-            slug,
-            content: skillData.content,
-            sha256: skillData.sha256,
+            slug: resolved.slug,
+            content: resolved.content,
+            sha256: resolved.sha256,
           },
-          meta,
+          resolved.meta,
+          resolved.files,
         );
         updated++;
 
-        skills.push({ ...meta, sha256: skillData.sha256 });
-        syncedSlugs.push(slug);
-      }
+        // meta.yaml now records the registry content as the new base, so the
+        // merged result shows as a local edit until it's saved
+        if (merge) {
+          fs.writeSkillWorkingCopy(resolved.slug, merge.content, merge.files);
+          if (merge.conflicts.length > 0) {
+            conflicted.push({ slug: resolved.slug, paths: merge.conflicts });
+          } else if (fs.isSkillModified(resolved.slug)) {
+            merged.push(resolved.slug);
+          }
+        }
 
-      // Write system (meta) skill
-      fs.writeSystemSkill(META_SKILL_CONTENT);
+        syncedSlugs.push(resolved.slug);
+      }
 
-      // Generate SKILLS_INDEX.md
-      indexGen.writeIndex(skills);
+      // Record exactly what was installed. Skills that failed to resolve keep
+      // their previous lock entry so a transient error doesn't unpin them.
+      if (!options.frozen) {
+        const configuredSlugs = skillsConfig.skills.map((s) => s.slug);
+        const lockedSkills = resolvedSkills.map(resolver.toLockedSkill);
+        for (const previous of lock?.skills || []) {
+          if (
+            configuredSlugs.includes(previous.slug) &&
+            !lockedSkills.some((s) => s.slug === previous.slug)
+          ) {
+            lockedSkills.push(previous);
+          }
+        }
+        lockfile.writeLockfile(lockedSkills);
+      }
 
-      // Update agent config files with skills discovery section
-      fs.updateClaudeMd();
-      fs.updateAgentsMd();
-      fs.updateCursorRules();
+      // Render skills into each configured agent's native format (including
+      // SKILLS_INDEX.md and the system skill for Claude)
+      const targetResult = targets.syncTargets(skillsConfig, syncedSlugs);
 
-      // Sync skills to .claude/skills/ as symlinks for native agent loading
-      fs.syncClaudeNativeSkills(syncedSlugs);
+      // Remember this project so `skill watch` can keep it up to date
+      projects.registerProject(config.findProjectRoot() || process.cwd());
 
       spinner.succeed("Sync complete!");
 
+      if (output.isJsonMode()) {
+        const data = {
+          synced: resolvedSkills.map((resolved) => ({
+            slug: resolved.slug,
+            source: resolved.source,
+            version: resolved.version ?? null,
+            sha256: resolved.sha256,
+          })),
+          merged,
+          conflicts: conflicted,
+          errors,
+          targets: targetResult.synced,
+        };
+        if (conflicted.length > 0) {
+          output.fail(
+            "CONFLICT",
+            `Merge conflicts in ${conflicted.length} skill(s).`,
+            { data },
+          );
+        }
+        output.printJson(data);
+        return;
+      }
+
       // Print summary
       console.log("");
       console.log(`Synced ${chalk.cyan(updated)} skills.`);
+      if (targetResult.synced.length > 0) {
+        console.log(
+          chalk.gray(
+            `Installed for ${targetResult.synced.map(targets.getTargetLabel).join(", ")}.`,
+          ),
+        );
+      }
+      for (const name of targetResult.unknown) {
+        console.log(
+          chalk.yellow(
+            `⚠ .skills.yaml: unknown target '${name}' (expected one of ${targets.TARGET_NAMES.join(", ")})`,
+          ),
+        );
+      }
+
+      if (merged.length > 0) {
+        console.log("");
+        console.log(`Merged local edits into ${chalk.cyan(merged.length)} skill(s):`);
+        for (const slug of merged) {
+          console.log(`  ${chalk.green("✓")} ${slug}`);
+        }
+        console.log(
+          chalk.gray(
+            `  Run ${chalk.cyan("skill save <slug>")} to store the merged content in the registry.`,
+          ),
+        );
+      }
+
+      if (conflicted.length > 0) {
+        console.log("");
+        console.log(
+          chalk.red(`Merge conflicts in ${conflicted.length} skill(s):`),
+        );
+        for (const conflict of conflicted) {
+          console.log(
+            `  ${chalk.red("✗")} ${conflict.slug}: ${conflict.paths.join(", ")}`,
+          );
+        }
+        console.log(
+          chalk.gray(
+            `  Resolve the conflict markers, then run ${chalk.cyan("skill save <slug>")}.`,
+          ),
+        );
+      }
 
       // Print errors if any
       if (errors.length > 0) {
         console.log("");
         console.log(chalk.red(`${errors.length} skill(s) failed:`));
         for (const error of errors) {
-          console.log(`  ${chalk.red("✗")} ${error.slug}: ${error.error}`);
+          const sourceLabel = error.source ? chalk.gray(` (${error.source})`) : "";
+          console.log(
+            `  ${chalk.red("✗")} ${error.slug}${sourceLabel}: ${error.error}`,
+          );
         }
       }
+
+      if (conflicted.length > 0) {
+        process.exit(1);
+      }
     } catch (error) {
-      console.error(
-        chalk.red("Error:"),
-        error instanceof Error ? error.message : error,
-      );
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -0,0 +1,156 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as os from 'os';
+import * as localRegistry from '../lib/local-registry/index.js';
+import * as templates from '../lib/templates.js';
+import type { SkillTemplate, TemplateVariable } from '../lib/templates.js';
+import type { SkillFiles } from '../lib/skill-files.js';
+
+/**
+ * Describe where a template comes from
+ */
+function describeSource(template: SkillTemplate): string {
+  switch (template.source) {
+    case 'builtin':
+      return 'built-in';
+    case 'registry':
+      return 'local registry';
+    case 'templates':
+      return template.path ? template.path.replace(os.homedir(), '~') : 'templates';
+  }
+}
+
+/**
+ * Describe a template variable, e.g. `team = "platform"` or `service (required)`
+ */
+function describeVariable(variable: TemplateVariable): string {
+  if (variable.default !== undefined) {
+    return `${variable.name} = "${variable.default}"`;
+  }
+  return variable.required ? `${variable.name} (required)` : variable.name;
+}
+
+export const templateCommand = new Command('template')
+  .description('Manage skill templates for `skill new --template`');
+
+// List templates
+templateCommand
+  .command('list')
+  .description('List available skill templates')
+  .action(async () => {
+    try {
+      const available = templates.listTemplates();
+
+      console.log(chalk.bold('Templates:'));
+      console.log('');
+
+      const width = Math.max(...available.map((t) => t.name.length)) + 2;
+      for (const template of available) {
+        console.log(
+          `  ${chalk.cyan(template.name.padEnd(width))}${template.description || chalk.gray('(no description)')} ${chalk.gray(`(${describeSource(template)})`)}`
+        );
+        if (template.variables.length > 0) {
+          console.log(chalk.gray(`  ${' '.repeat(width)}variables: ${template.variables.map(describeVariable).join(', ')}`));
+        }
+        const fileCount = Object.keys(template.files).length;
+        if (fileCount > 0) {
+          console.log(chalk.gray(`  ${' '.repeat(width)}${fileCount} supporting file(s)`));
+        }
+      }
+
+      console.log('');
+      console.log(chalk.gray(`Create a skill from one with ${chalk.cyan('skill new <slug> --template <name>')}.`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Create a template
+templateCommand
+  .command('new')
+  .description('Create a template in ~/.overskill/templates/')
+  .argument('<name>', 'Template name (lowercase, hyphens allowed)')
+  .option('-d, --description <desc>', 'Template description')
+  .option('--from <slug>', 'Start from a skill in the local registry (content and supporting files)')
+  .option('-f, --force', 'Overwrite an existing template')
+  .action(async (name: string, options) => {
+    try {
+      if (!templates.isValidTemplateName(name)) {
+        console.log(chalk.red('Error: Template name must be lowercase alphanumeric with hyphens only.'));
+        process.exit(1);
+      }
+
+      const existing = templates.getTemplate(name);
+      if (existing?.source === 'templates' && !options.force) {
+        console.log(chalk.red(`Error: Template '${name}' already exists.`));
+        console.log(`Use ${chalk.cyan('--force')} to overwrite it.`);
+        process.exit(1);
+      }
+
+      let content = templates.scaffoldTemplateContent();
+      let files: SkillFiles = {};
+      let description: string | undefined = options.description;
+
+      if (options.from) {
+        const skill = localRegistry.getSkill(options.from);
+        if (!skill) {
+          console.log(chalk.red(`Error: Skill '${options.from}' not found in local registry.`));
+          process.exit(1);
+        }
+        content = templates.templateContentFromSkill(skill.content);
+        files = skill.files;
+        description = description ?? `Based on ${options.from}`;
+      }
+
+      if (existing?.source === 'templates') {
+        templates.deleteTemplate(name);
+      }
+      const dir = templates.createTemplate(name, { description, content, files });
+
+      console.log(chalk.green(`Created template ${chalk.cyan(name)}`));
+      console.log('');
+      console.log(`Edit the files in ${chalk.cyan(dir)}:`);
+      console.log(`  ${chalk.bold('SKILL.md')}        The scaffold, with ${chalk.cyan('{{name}}')}, ${chalk.cyan('{{description}}')} and your own ${chalk.cyan('{{variables}}')}`);
+      console.log(`  ${chalk.bold('template.yaml')}   Description, and variable descriptions and defaults`);
+      console.log(`  ${chalk.gray('anything else')}   Supporting files copied into new skills`);
+      console.log('');
+      console.log(`Then run ${chalk.cyan(`skill new <slug> --template ${name}`)}.`);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Delete a template
+templateCommand
+  .command('delete')
+  .description('Delete a template from ~/.overskill/templates/')
+  .argument('<name>', 'Template name')
+  .action(async (name: string) => {
+    try {
+      if (!templates.isValidTemplateName(name)) {
+        console.log(chalk.red('Error: Template name must be lowercase alphanumeric with hyphens only.'));
+        process.exit(1);
+      }
+
+      if (!templates.deleteTemplate(name)) {
+        const template = templates.getTemplate(name);
+        console.log(chalk.red(`Error: Template '${name}' not found in ${templates.getTemplatesDir()}.`));
+        if (template?.source === 'registry') {
+          console.log(
+            `'${name}' is a registry skill tagged ${chalk.cyan(templates.TEMPLATE_TAG)}; run ${chalk.cyan(`skill meta ${name} --remove-tag ${templates.TEMPLATE_TAG}`)} to stop using it as a template.`
+          );
+        }
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`Deleted template ${chalk.cyan(name)}`));
+      if (name === templates.DEFAULT_TEMPLATE) {
+        console.log(chalk.gray(`${chalk.cyan('skill new')} uses the built-in default template again.`));
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as targets from '../lib/targets.js';
+import type { IntegrationsConfig } from '../types.js';
+
+export const uninstallIntegrationsCommand = new Command('uninstall-integrations')
+  .description('Remove Overskill sections, rules, links and the skills index from agent files')
+  .option('--keep-enabled', "Don't switch integrations off in .skills.yaml (the next sync writes them again)")
+  .action(async (options) => {
+    try {
+      if (!config.configExists()) {
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [`Run ${chalk.cyan('skill init')} first.`],
+        });
+      }
+
+      const removed = targets.removeIntegrations();
+
+      // Switch every integration off so sync doesn't write them again
+      if (!options.keepEnabled) {
+        const skillsConfig = config.readConfig();
+        const integrations: IntegrationsConfig = {};
+        for (const name of targets.INTEGRATION_NAMES) {
+          integrations[name] = false;
+        }
+        config.writeConfig({ ...skillsConfig, integrations });
+      }
+
+      if (output.isJsonMode()) {
+        output.printJson({ removed, disabled: !options.keepEnabled });
+        return;
+      }
+
+      if (removed.length === 0) {
+        console.log(chalk.yellow('No agent integrations found.'));
+      } else {
+        console.log(chalk.green(`Removed Overskill from ${removed.length} path(s):`));
+        for (const removedPath of removed) {
+          console.log(`  ${chalk.cyan(removedPath)}`);
+        }
+      }
+
+      if (!options.keepEnabled) {
+        console.log('');
+        console.log(
+          chalk.gray(
+            `Integrations are switched off in .skills.yaml. Set them to true under ${chalk.cyan('integrations')} and run ${chalk.cyan('skill sync')} to restore them.`
+          )
+        );
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
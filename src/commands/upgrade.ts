@@ -120,10 +120,8 @@ export const upgradeCommand = new Command("upgrade")
       const skillsConfig = config.readConfig();
       const currentInstallPath = skillsConfig.install_path;
       const targetInstallPath = ".claude/skills";
-      const lockfilePath = path.join(projectRoot, ".skills.lock");
       const legacySkillDir = path.join(projectRoot, ".skill");
       const targetInstallFullPath = path.join(projectRoot, targetInstallPath);
-      const hasLockfile = nodeFs.existsSync(lockfilePath);
       const needsPathMigration = currentInstallPath !== targetInstallPath;
       const hasLegacySkillDir = nodeFs.existsSync(legacySkillDir);
       const hasExistingClaudeSkills = nodeFs.existsSync(targetInstallFullPath);
@@ -136,11 +134,6 @@ export const upgradeCommand = new Command("upgrade")
           `  • Install path will change from ${chalk.red(currentInstallPath)} → ${chalk.green(targetInstallPath)}`,
         );
       }
-      if (hasLockfile) {
-        console.log(
-          `  • ${chalk.red(".skills.lock")} will be removed (no longer used)`,
-        );
-      }
       if (hasLegacySkillDir) {
         console.log(
           `  • Legacy ${chalk.red(".skill/")} will be removed after sync`,
@@ -156,7 +149,7 @@ export const upgradeCommand = new Command("upgrade")
         );
       }
       console.log(
-        `  • Run ${chalk.cyan("skill sync")} to rebuild skills from ${chalk.cyan(".skills.yaml")}`,
+        `  • Run ${chalk.cyan("skill sync")} to rebuild skills from ${chalk.cyan(".skills.yaml")} and refresh ${chalk.cyan(".skills.lock")}`,
       );
 
       const proceed = await confirm({
@@ -177,11 +170,6 @@ export const upgradeCommand = new Command("upgrade")
         config.writeConfig(skillsConfig);
       }
 
-      // Remove .skills.lock
-      if (hasLockfile) {
-        nodeFs.unlinkSync(lockfilePath);
-      }
-
       // Reset .claude/skills and delegate all writes to the sync command.
       if (hasExistingClaudeSkills) {
         nodeFs.rmSync(targetInstallFullPath, { recursive: true, force: true });
@@ -1,95 +1,127 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
+import * as path from 'path';
 import * as config from '../lib/config.js';
 import * as fs from '../lib/fs.js';
+import * as output from '../lib/output.js';
+import { lintSkill, checkLintConfig, toSarif } from '../lib/lint.js';
+import type { LintIssue, LintResult } from '../lib/lint.js';
+import { getCliPackageMetadata } from '../lib/cli-metadata.js';
+
+/**
+ * Format an issue location, e.g. `SKILL.md:12`
+ */
+function formatLocation(issue: LintIssue): string {
+  return issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+}
 
 export const validateCommand = new Command('validate')
-  .description('Validate skill files')
+  .description('Lint installed skills (frontmatter, links, supporting files, size, headings, tags)')
   .argument('[slug]', 'Skill slug to validate (optional, validates all if not provided)')
-  .action(async (slug?: string) => {
+  .option('-f, --format <format>', 'Output format: text, json or sarif', 'text')
+  .action(async (slug: string | undefined, options) => {
     try {
+      const format = options.format as string;
+      if (!['text', 'json', 'sarif'].includes(format)) {
+        output.fail('INVALID_ARGUMENT', `Invalid format '${format}'. Use text, json or sarif.`);
+      }
+      if (format === 'json') {
+        output.enableJsonMode('validate');
+      }
+
       // Check if initialized
       if (!config.configExists()) {
-        console.log(chalk.red('Error: Not in a skills project.'));
-        console.log(`Run ${chalk.cyan('skill init')} first.`);
-        process.exit(1);
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [`Run ${chalk.cyan('skill init')} first.`],
+        });
+      }
+
+      const lintConfig = config.readConfig().lint || {};
+      const configProblems = checkLintConfig(lintConfig);
+      if (format === 'text' && !output.isJsonMode()) {
+        for (const problem of configProblems) {
+          console.log(chalk.yellow(`⚠ .skills.yaml: ${problem}`));
+        }
       }
 
       const skillsToValidate = slug ? [slug] : fs.listLocalSkills();
 
-      if (skillsToValidate.length === 0) {
+      if (skillsToValidate.length === 0 && format === 'text' && !output.isJsonMode()) {
         console.log(chalk.yellow('No skills to validate.'));
         return;
       }
 
-      let hasErrors = false;
+      const projectRoot = config.findProjectRoot() || process.cwd();
+      const results: LintResult[] = skillsToValidate.map((skillSlug) => {
+        const dir = fs.getSkillDir(skillSlug);
+        return {
+          slug: skillSlug,
+          path: path.relative(projectRoot, dir),
+          issues: lintSkill(
+            {
+              slug: skillSlug,
+              dir,
+              content: fs.readSkillContent(skillSlug),
+              meta: fs.readSkillMeta(skillSlug),
+            },
+            lintConfig
+          ),
+        };
+      });
 
-      for (const skillSlug of skillsToValidate) {
-        const errors: string[] = [];
-        const warnings: string[] = [];
+      const failed = results.filter((r) => r.issues.some((i) => i.severity === 'error'));
 
-        // Check SKILL.md exists
-        const content = fs.readSkillContent(skillSlug);
-        if (!content) {
-          errors.push('SKILL.md not found');
-        } else {
-          // Check content is not empty
-          if (content.trim().length === 0) {
-            errors.push('SKILL.md is empty');
-          }
-
-          // Check for title heading
-          if (!content.match(/^#\s+.+/m)) {
-            warnings.push('SKILL.md should have a # heading');
-          }
+      if (format === 'sarif') {
+        const { name, version } = getCliPackageMetadata();
+        console.log(JSON.stringify(toSarif(results, { name, version }), null, 2));
+        if (failed.length > 0) {
+          process.exit(1);
+        }
+        return;
+      }
 
-          // Check for reasonable length
-          if (content.length < 100) {
-            warnings.push('SKILL.md seems very short');
-          }
+      if (output.isJsonMode()) {
+        const data = {
+          skills: results.map((result) => ({
+            slug: result.slug,
+            path: result.path,
+            valid: !failed.includes(result),
+            errors: result.issues.filter((i) => i.severity === 'error'),
+            warnings: result.issues.filter((i) => i.severity === 'warning'),
+          })),
+          configProblems,
+        };
+        if (failed.length > 0) {
+          output.fail('VALIDATION_FAILED', `${failed.length} skill(s) failed validation.`, { data });
         }
+        output.printJson(data);
+        return;
+      }
 
-        // Check meta.yaml exists
-        const meta = fs.readSkillMeta(skillSlug);
-        if (!meta) {
-          errors.push('meta.yaml not found');
-        } else {
-          // Validate required fields
-          if (!meta.slug) {
-            errors.push('meta.yaml missing slug');
-          }
+      for (const result of results) {
+        const errors = result.issues.filter((i) => i.severity === 'error');
+        const warnings = result.issues.filter((i) => i.severity === 'warning');
 
-          // Check slug format
-          if (meta.slug && !/^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/.test(meta.slug)) {
-            errors.push('Slug must be lowercase alphanumeric with hyphens');
-          }
+        if (errors.length === 0 && warnings.length === 0) {
+          console.log(chalk.green(`✓ ${result.slug}`));
+          continue;
         }
 
-        // Print results
-        if (errors.length === 0 && warnings.length === 0) {
-          console.log(chalk.green(`✓ ${skillSlug}`));
-        } else {
-          if (errors.length > 0) {
-            console.log(chalk.red(`✗ ${skillSlug}`));
-            hasErrors = true;
-            for (const error of errors) {
-              console.log(chalk.red(`    Error: ${error}`));
-            }
-          } else {
-            console.log(chalk.yellow(`⚠ ${skillSlug}`));
-          }
+        console.log(errors.length > 0 ? chalk.red(`✗ ${result.slug}`) : chalk.yellow(`⚠ ${result.slug}`));
 
-          for (const warning of warnings) {
-            console.log(chalk.yellow(`    Warning: ${warning}`));
-          }
+        for (const issue of [...errors, ...warnings]) {
+          const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+          const label = issue.severity === 'error' ? 'Error' : 'Warning';
+          console.log(
+            color(`    ${label}: ${issue.message}`) + chalk.gray(` (${formatLocation(issue)}, ${issue.rule})`)
+          );
         }
       }
 
-      if (hasErrors) {
+      if (failed.length > 0) {
         process.exit(1);
       }
     } catch (error) {
-      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-      process.exit(1);
+      output.handleError(error);
     }
   });
@@ -0,0 +1,394 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as nodeFs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as config from '../lib/config.js';
+import * as fs from '../lib/fs.js';
+import * as lockfile from '../lib/lockfile.js';
+import * as output from '../lib/output.js';
+import * as projects from '../lib/projects.js';
+import * as resolver from '../lib/resolver.js';
+import * as targets from '../lib/targets.js';
+import * as localRegistry from '../lib/local-registry/index.js';
+import { readInstalledSource } from '../lib/compose.js';
+import { hasConflictMarkers } from '../lib/merge.js';
+import { reconcileMetadata, formatConflict } from '../lib/metadata.js';
+import type { MetadataConflict } from '../lib/metadata.js';
+import { isLocalSource } from '../types.js';
+
+/**
+ * Where an edit was made: the registry working copy (`skill open`) or a
+ * project's installed copy
+ */
+type EditOrigin = 'registry' | 'project';
+
+/**
+ * What happened to a skill in one project after it was saved
+ */
+type ProjectSyncStatus = 'updated' | 'unchanged' | 'modified' | 'unused';
+
+/**
+ * Print a timestamped log line
+ */
+function log(message: string): void {
+  const time = new Date().toTimeString().slice(0, 8);
+  console.log(`${chalk.gray(`[${time}]`)} ${message}`);
+}
+
+/**
+ * Print a detail line under the last log line
+ */
+function detail(message: string): void {
+  console.log(`           ${message}`);
+}
+
+/**
+ * Get the slug from a watched path like `<slug>/SKILL.md`
+ */
+function slugFromPath(filename: string | Buffer | null): string | null {
+  if (!filename) return null;
+  const parts = filename.toString().split(path.sep);
+  return parts.length === 2 && parts[1] === 'SKILL.md' && !parts[0].startsWith('_') ? parts[0] : null;
+}
+
+/**
+ * Watch `<slug>/` directories under a root, calling back with paths like
+ * `<slug>/SKILL.md`. Recursive fs.watch isn't available on Linux before
+ * Node 20, so there each skill directory gets its own watcher, attached and
+ * detached as skills are added and removed.
+ */
+function watchSkillDirs(root: string, onChange: (filename: string) => void): { close: () => void } {
+  try {
+    const watcher = nodeFs.watch(root, { recursive: true }, (_event, filename) => {
+      if (filename) onChange(filename.toString());
+    });
+    return { close: () => watcher.close() };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+      throw error;
+    }
+  }
+
+  const skillWatchers = new Map<string, nodeFs.FSWatcher>();
+  const attach = () => {
+    const dirs = nodeFs
+      .readdirSync(root, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+
+    for (const [dir, watcher] of skillWatchers) {
+      if (!dirs.includes(dir)) {
+        watcher.close();
+        skillWatchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (skillWatchers.has(dir)) continue;
+      try {
+        skillWatchers.set(
+          dir,
+          nodeFs.watch(path.join(root, dir), (_event, filename) => {
+            if (filename) onChange(path.join(dir, filename.toString()));
+          })
+        );
+      } catch {
+        // Removed before it could be watched
+      }
+    }
+  };
+
+  attach();
+  const rootWatcher = nodeFs.watch(root, () => attach());
+  return {
+    close: () => {
+      rootWatcher.close();
+      for (const watcher of skillWatchers.values()) {
+        watcher.close();
+      }
+    },
+  };
+}
+
+/**
+ * Display a project root relative to the home directory
+ */
+function displayRoot(root: string): string {
+  const home = os.homedir();
+  return root.startsWith(home + path.sep) ? `~${root.slice(home.length)}` : root;
+}
+
+/**
+ * Run a function with a project as the working directory
+ */
+async function inProject<T>(root: string, fn: () => Promise<T>): Promise<T> {
+  const cwd = process.cwd();
+  process.chdir(root);
+  try {
+    return await fn();
+  } finally {
+    process.chdir(cwd);
+  }
+}
+
+/**
+ * Print the metadata fields the frontmatter changed
+ */
+function printConflicts(conflicts: MetadataConflict[]): void {
+  for (const conflict of conflicts) {
+    detail(chalk.yellow(`${formatConflict(conflict)} (from frontmatter)`));
+  }
+}
+
+/**
+ * Save an edited registry working copy as a new revision
+ *
+ * @returns Whether a revision was saved (false if the content is unchanged)
+ */
+function saveRegistryEdit(slug: string, message?: string): boolean {
+  const skillFilePath = localRegistry.getSkillFilePath(slug);
+  const meta = localRegistry.readMeta(slug);
+  if (!meta || !nodeFs.existsSync(skillFilePath)) {
+    return false;
+  }
+
+  const content = nodeFs.readFileSync(skillFilePath, 'utf-8');
+  if (fs.computeHash(content) === meta.sha256) {
+    return false;
+  }
+  if (hasConflictMarkers(content)) {
+    log(chalk.yellow(`⚠ ${slug}: SKILL.md has conflict markers; not saved`));
+    return false;
+  }
+
+  const { metadata, conflicts } = reconcileMetadata(content, meta, slug);
+  localRegistry.putSkill({ slug, content, meta: metadata, message });
+
+  log(`${chalk.green('✓')} Saved ${chalk.cyan(slug)} ${chalk.gray('(registry working copy)')}`);
+  printConflicts(conflicts);
+  return true;
+}
+
+/**
+ * Save an edited installed copy in the current project to the registry
+ *
+ * @returns Whether a revision was saved (false if the installed copy is unedited)
+ */
+function saveProjectEdit(slug: string, message?: string): boolean {
+  if (!config.findSkill(slug) || !fs.skillExists(slug) || !fs.isSkillModified(slug)) {
+    return false;
+  }
+
+  const installed = readInstalledSource(slug);
+  if (!installed) {
+    return false;
+  }
+  const content = installed.content;
+  if (hasConflictMarkers(content)) {
+    log(chalk.yellow(`⚠ ${slug}: SKILL.md has conflict markers; not saved`));
+    return false;
+  }
+
+  const existingMeta = localRegistry.readMeta(slug) || fs.readSkillMeta(slug);
+  const { metadata, conflicts } = reconcileMetadata(content, existingMeta, slug);
+  const { sha256 } = localRegistry.putSkill({
+    slug,
+    content,
+    files: fs.readSkillFiles(slug),
+    meta: metadata,
+    message,
+  });
+
+  // The installed copy now matches the registry (a composed copy stays as is)
+  fs.markSkillSaved(slug, {
+    sha256: installed.composed !== null ? localRegistry.writeObject(installed.composed) : sha256,
+    metadata,
+    ...(installed.overrideBase !== null ? { overrideBase: localRegistry.writeObject(installed.overrideBase) } : {}),
+  });
+  targets.refreshTargets();
+
+  log(`${chalk.green('✓')} Saved ${chalk.cyan(slug)} ${chalk.gray(`(installed copy in ${config.readConfig().install_path})`)}`);
+  printConflicts(conflicts);
+  return true;
+}
+
+/**
+ * Install the registry's current content for a skill in the current project,
+ * if the project uses it from a local source
+ */
+async function syncSkill(slug: string): Promise<ProjectSyncStatus> {
+  const entry = config.findSkill(slug);
+  const source = entry ? config.getSourceForSkill(entry) : undefined;
+  if (!entry || !source || !isLocalSource(source)) {
+    return 'unused';
+  }
+
+  // Never overwrite edits made in the project; `skill sync` merges them
+  if (fs.skillExists(slug) && fs.isSkillModified(slug)) {
+    return 'modified';
+  }
+
+  const { skills, errors } = await resolver.resolveSkills([entry]);
+  const resolved = skills[0];
+  if (!resolved) {
+    throw new Error(errors[0]?.error || `Could not resolve '${slug}'`);
+  }
+
+  // A version pin may still resolve to the installed content
+  if (fs.readSkillMeta(slug)?.sha256 === resolved.sha256) {
+    return 'unchanged';
+  }
+
+  fs.writeSkill({ slug, content: resolved.content, sha256: resolved.sha256 }, resolved.meta, resolved.files);
+  lockfile.updateLockedSkill(resolver.toLockedSkill(resolved));
+  targets.refreshTargets();
+  return 'updated';
+}
+
+/**
+ * List the skills installed in the current project that include or extend a skill
+ */
+function findComposedSkills(slug: string): string[] {
+  return config
+    .readConfig()
+    .skills.map((entry) => entry.slug)
+    .filter((installed) => installed !== slug && fs.readSkillMeta(installed)?.includes?.[slug] !== undefined);
+}
+
+/**
+ * Sync a saved skill, and the skills composed from it, into every known
+ * project that uses them
+ *
+ * @param exclude A project root to leave alone (where the edit was made)
+ */
+async function syncProjects(slug: string, roots: string[], exclude?: string): Promise<void> {
+  const updated: string[] = [];
+
+  for (const root of roots) {
+    const slugs = root === exclude ? [] : [slug];
+    slugs.push(...(await inProject(root, async () => findComposedSkills(slug))));
+
+    for (const target of slugs) {
+      const label = target === slug ? displayRoot(root) : `${displayRoot(root)} (${target})`;
+      try {
+        const status = await inProject(root, () => syncSkill(target));
+        if (status === 'updated') {
+          updated.push(label);
+        } else if (status === 'modified') {
+          detail(chalk.yellow(`⚠ ${label} has local edits; run ${chalk.cyan('skill sync')} there to merge`));
+        }
+      } catch (error) {
+        detail(chalk.red(`✗ ${label}: ${error instanceof Error ? error.message : error}`));
+      }
+    }
+  }
+
+  if (updated.length > 0) {
+    detail(`→ Synced into ${updated.join(', ')}`);
+  }
+}
+
+export const watchCommand = new Command('watch')
+  .description('Watch registry and installed skills, saving edits and syncing them into projects')
+  .option('-m, --message <message>', 'Message to record in the skill history for each save')
+  .option('--debounce <ms>', 'Wait this long after the last change before saving', '300')
+  .action(async (options) => {
+    try {
+      const delay = parseInt(options.debounce, 10);
+      if (Number.isNaN(delay) || delay < 0) {
+        output.fail('INVALID_ARGUMENT', `Invalid --debounce value '${options.debounce}'.`);
+      }
+
+      localRegistry.ensureRegistryStructure();
+
+      // The project watch starts in, if any; other known projects are synced too
+      const projectRoot = config.configExists() ? config.findProjectRoot() || process.cwd() : null;
+      if (projectRoot) {
+        projects.registerProject(projectRoot);
+      }
+      const knownRoots = () => [...new Set([...(projectRoot ? [projectRoot] : []), ...projects.listKnownProjects()])];
+
+      // Handle one change at a time: projects are synced by switching into them
+      let queue = Promise.resolve();
+      const handle = (origin: EditOrigin, slug: string) => {
+        queue = queue
+          .then(async () => {
+            const saved =
+              origin === 'registry'
+                ? saveRegistryEdit(slug, options.message)
+                : await inProject(projectRoot!, async () => saveProjectEdit(slug, options.message));
+            if (saved) {
+              await syncProjects(slug, knownRoots(), origin === 'project' ? projectRoot! : undefined);
+            }
+          })
+          .catch((error) => {
+            log(chalk.red(`✗ ${slug}: ${error instanceof Error ? error.message : error}`));
+          });
+      };
+
+      // Editors often write a file several times per save; act once it settles
+      const timers = new Map<string, NodeJS.Timeout>();
+      const schedule = (origin: EditOrigin, slug: string) => {
+        const key = `${origin}:${slug}`;
+        clearTimeout(timers.get(key));
+        timers.set(
+          key,
+          setTimeout(() => {
+            timers.delete(key);
+            handle(origin, slug);
+          }, delay)
+        );
+      };
+
+      const watchers: Array<{ close: () => void }> = [];
+
+      const registryDir = localRegistry.getSkillsDir();
+      watchers.push(
+        watchSkillDirs(registryDir, (filename) => {
+          const slug = slugFromPath(filename);
+          if (slug) schedule('registry', slug);
+        })
+      );
+
+      let installPath: string | null = null;
+      if (projectRoot) {
+        installPath = config.getInstallPath();
+        fs.ensureDir(installPath);
+        const projectDirs = [installPath];
+        if (fs.isClaudeLoadedInstallPath() && nodeFs.existsSync(fs.getUnlistedSkillsDir())) {
+          projectDirs.push(fs.getUnlistedSkillsDir());
+        }
+        for (const dir of projectDirs) {
+          watchers.push(
+            watchSkillDirs(dir, (filename) => {
+              const slug = slugFromPath(filename);
+              if (slug) schedule('project', slug);
+            })
+          );
+        }
+      }
+
+      console.log(chalk.bold('Watching for skill edits') + chalk.gray(' (Ctrl+C to stop)'));
+      console.log(`  ${chalk.bold('Registry:')} ${displayRoot(registryDir)}`);
+      if (installPath) {
+        console.log(`  ${chalk.bold('Project:')}  ${path.relative(projectRoot!, installPath) || '.'}`);
+      }
+      const otherProjects = knownRoots().filter((root) => root !== projectRoot).length;
+      console.log(`  ${chalk.bold('Syncing:')}  ${projectRoot ? 'this project' : 'no project here'}${otherProjects > 0 ? ` and ${otherProjects} other known project(s)` : ''}`);
+      console.log('');
+
+      process.on('SIGINT', () => {
+        for (const watcher of watchers) {
+          watcher.close();
+        }
+        for (const timer of timers.values()) {
+          clearTimeout(timer);
+        }
+        console.log('');
+        console.log(chalk.gray('Stopped watching.'));
+        process.exitCode = 0;
+      });
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
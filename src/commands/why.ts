@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as config from '../lib/config.js';
+import * as output from '../lib/output.js';
+import * as dependencies from '../lib/dependencies.js';
+
+export const whyCommand = new Command('why')
+  .description('Explain why a skill is in the project')
+  .argument('<slug>', 'Skill slug')
+  .action(async (slug: string) => {
+    try {
+      if (!config.configExists()) {
+        output.fail('NOT_INITIALIZED', 'Not in a skills project.', {
+          hints: [`Run ${chalk.cyan('skill init')} first.`],
+        });
+      }
+
+      const entries = config.readConfig().skills;
+      const entry = entries.find((e) => e.slug === slug);
+      if (!entry) {
+        output.fail('NOT_FOUND', `Skill '${slug}' is not in this project.`, {
+          hints: [`Run ${chalk.cyan(`skill add ${slug}`)} to add it.`],
+        });
+      }
+
+      const chains = dependencies.explainDependency(slug, entries);
+      const requires = dependencies.readInstalledRequires(slug);
+
+      if (output.isJsonMode()) {
+        output.printJson({
+          slug,
+          direct: !entry.dependency,
+          requiredBy: chains,
+          requires: requires.map(dependencies.formatRequirement),
+        });
+        return;
+      }
+
+      console.log(chalk.bold(slug));
+      console.log('');
+
+      if (!entry.dependency) {
+        console.log(`  Added directly ${chalk.gray('(skill add)')}`);
+      }
+      for (const chain of chains) {
+        console.log(`  Required by ${chain.map((s, i) => (i === chain.length - 1 ? chalk.cyan(s) : s)).join(chalk.gray(' → '))}`);
+      }
+      if (entry.dependency && chains.length === 0) {
+        console.log(chalk.yellow('  No longer required by any skill in the project.'));
+        console.log(chalk.gray(`  Keep it with ${chalk.cyan(`skill add ${slug}`)}; removing the last skill that required it prunes it.`));
+      }
+
+      if (requires.length > 0) {
+        console.log('');
+        console.log(`${chalk.bold('Requires:')} ${requires.map(dependencies.formatRequirement).join(', ')}`);
+      }
+    } catch (error) {
+      output.handleError(error);
+    }
+  });
@@ -4,11 +4,19 @@ import { Command } from "commander";
 import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
+import * as output from "./lib/output.js";
 import { initCommand } from "./commands/init.js";
+import { deinitCommand } from "./commands/deinit.js";
 import { newCommand } from "./commands/new.js";
+import { templateCommand } from "./commands/template.js";
 import { addCommand } from "./commands/add.js";
 import { removeCommand } from "./commands/remove.js";
+import { whyCommand } from "./commands/why.js";
+import { packCommand } from "./commands/pack.js";
 import { syncCommand } from "./commands/sync.js";
+import { watchCommand } from "./commands/watch.js";
+import { statusCommand } from "./commands/status.js";
+import { uninstallIntegrationsCommand } from "./commands/uninstall-integrations.js";
 import { openCommand } from "./commands/open.js";
 import { saveCommand } from "./commands/save.js";
 import { listCommand } from "./commands/list.js";
@@ -19,8 +27,12 @@ import { deleteCommand } from "./commands/delete.js";
 import { configCommand } from "./commands/config.js";
 import { publishCommand } from "./commands/publish.js";
 import { renameCommand } from "./commands/rename.js";
+import { metaCommand } from "./commands/meta.js";
 import { versionCommand } from "./commands/version.js";
 import { updateCommand } from "./commands/update.js";
+import { historyCommand } from "./commands/history.js";
+import { checkoutCommand } from "./commands/checkout.js";
+import { cacheCommand } from "./commands/cache.js";
 // Cloud-related commands
 import { loginCommand } from "./commands/login.js";
 import { pushCommand } from "./commands/push.js";
@@ -42,7 +54,24 @@ const program = new Command();
 program
   .name("skill")
   .description("Overskill CLI - manage skills across repositories")
-  .version(pkg.version);
+  .version(pkg.version)
+  .option(
+    "--json",
+    "Print a machine-readable JSON document instead of text (list, info, search, status, sync, validate, diff, why, registry list/members/invitations)",
+  );
+
+// Switch output mode before the command runs, recording its full name (e.g. "registry members")
+program.hook("preAction", (thisCommand, actionCommand) => {
+  if (!thisCommand.opts().json) {
+    return;
+  }
+
+  const names: string[] = [];
+  for (let command: Command | null = actionCommand; command && command !== program; command = command.parent) {
+    names.unshift(command.name());
+  }
+  output.enableJsonMode(names.join(" "));
+});
 
 program.addHelpText(
   "after",
@@ -59,13 +88,21 @@ program.addHelpText(
 
 // Local commands (primary workflow)
 program.addCommand(initCommand);
+program.addCommand(deinitCommand);
 program.addCommand(newCommand);
+program.addCommand(templateCommand);
 program.addCommand(addCommand);
 program.addCommand(removeCommand);
+program.addCommand(whyCommand);
+program.addCommand(packCommand);
 program.addCommand(syncCommand);
+program.addCommand(watchCommand);
+program.addCommand(statusCommand);
+program.addCommand(uninstallIntegrationsCommand);
 program.addCommand(openCommand);
 program.addCommand(saveCommand);
 program.addCommand(renameCommand);
+program.addCommand(metaCommand);
 program.addCommand(listCommand);
 program.addCommand(infoCommand);
 program.addCommand(importCommand);
@@ -75,6 +112,9 @@ program.addCommand(versionCommand);
 program.addCommand(updateCommand);
 program.addCommand(configCommand);
 program.addCommand(publishCommand);
+program.addCommand(historyCommand);
+program.addCommand(checkoutCommand);
+program.addCommand(cacheCommand);
 
 // Cloud commands
 program.addCommand(loginCommand);
@@ -1,5 +1,6 @@
 import { ofetch, FetchError } from 'ofetch';
 import * as auth from './auth.js';
+import { CliError } from './output.js';
 import type {
   AuthResponse,
   RegistryResponse,
@@ -9,6 +10,7 @@ import type {
   SearchResult,
   MemberResponse,
   InvitationResponse,
+  SkillPack,
   APIError,
 } from '../types.js';
 
@@ -38,7 +40,7 @@ function getWebAppUrl(): string {
 async function getAuthHeaders(): Promise<Record<string, string>> {
   const token = auth.getAccessToken();
   if (!token) {
-    throw new Error('Not logged in. Run `skills login` first.');
+    throw new CliError('NOT_AUTHENTICATED', 'Not logged in. Run `skills login` first.');
   }
 
   const apiKey =
@@ -49,7 +51,7 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
   if (auth.isTokenExpired()) {
     const refreshToken = auth.getRefreshToken();
     if (!refreshToken) {
-      throw new Error('Session expired. Run `skills login` again.');
+      throw new CliError('NOT_AUTHENTICATED', 'Session expired. Run `skills login` again.');
     }
 
     try {
@@ -70,7 +72,7 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
       };
     } catch {
       auth.clearTokens();
-      throw new Error('Session expired. Run `skills login` again.');
+      throw new CliError('NOT_AUTHENTICATED', 'Session expired. Run `skills login` again.');
     }
   }
 
@@ -89,20 +91,20 @@ function handleError(error: unknown): never {
     if (data?.error) {
       switch (data.error.code) {
         case 'UNAUTHORIZED':
-          throw new Error('Not logged in. Run `skills login` first.');
+          throw new CliError('NOT_AUTHENTICATED', 'Not logged in. Run `skills login` first.');
         case 'FORBIDDEN':
-          throw new Error(`Permission denied: ${data.error.message}`);
+          throw new CliError('FORBIDDEN', `Permission denied: ${data.error.message}`);
         case 'NOT_FOUND':
-          throw new Error(data.error.message);
+          throw new CliError('NOT_FOUND', data.error.message);
         case 'CONFLICT':
-          throw new Error(data.error.message);
+          throw new CliError('CONFLICT', data.error.message);
         case 'VALIDATION_ERROR':
-          throw new Error(`Invalid input: ${data.error.message}`);
+          throw new CliError('INVALID_ARGUMENT', `Invalid input: ${data.error.message}`);
         default:
-          throw new Error(data.error.message);
+          throw new CliError('API_ERROR', data.error.message);
       }
     }
-    throw new Error(`API error: ${error.message}`);
+    throw new CliError('API_ERROR', `API error: ${error.message}`);
   }
   throw error;
 }
@@ -431,6 +433,46 @@ export async function search(
   }
 }
 
+// =============================================================================
+// PACKS
+// =============================================================================
+
+export async function listPacks(registrySlug: string): Promise<SkillPack[]> {
+  try {
+    const headers = await getAuthHeaders();
+    const response = await ofetch<{ packs: SkillPack[] }>(
+      `${getBaseUrl()}/registries/${registrySlug}/packs`,
+      { headers }
+    );
+    return response.packs;
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function getPack(registrySlug: string, name: string): Promise<SkillPack> {
+  try {
+    const headers = await getAuthHeaders();
+    return await ofetch<SkillPack>(`${getBaseUrl()}/registries/${registrySlug}/packs/${name}`, { headers });
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function createPack(registrySlug: string, pack: SkillPack): Promise<SkillPack> {
+  try {
+    const headers = await getAuthHeaders();
+    const response = await ofetch<{ pack: SkillPack }>(`${getBaseUrl()}/registries/${registrySlug}/packs`, {
+      method: 'POST',
+      headers,
+      body: pack,
+    });
+    return response.pack;
+  } catch (error) {
+    handleError(error);
+  }
+}
+
 // =============================================================================
 // SYNC
 // =============================================================================
@@ -0,0 +1,333 @@
+/**
+ * Skill composition
+ *
+ * A SKILL.md can pull in other skills from the local registry:
+ * - `<!-- include: slug -->` or `<!-- include: slug#Heading -->` on its own
+ *   line is followed by the other skill's body, or one section of it
+ * - `extends: slug` (or a list) in the frontmatter puts the base skill's body
+ *   before this skill's own
+ *
+ * `sync` installs the composed content. Pulled-in content is wrapped in
+ * marker comments so an installed copy can be turned back into its source
+ * (`decomposeSkill`) when it is saved.
+ */
+
+import { splitFrontmatter, parseFrontmatter } from './frontmatter.js';
+import { extractSection } from './markdown.js';
+import * as fs from './fs.js';
+import * as localRegistry from './local-registry/index.js';
+import { findOverride, removeOverride, OVERRIDES_DIR } from './overrides.js';
+
+/**
+ * A reference from one skill to another
+ */
+export interface SkillReference {
+  kind: 'extends' | 'include';
+  slug: string;
+  section?: string; // Heading to include, for `slug#Heading`
+}
+
+/**
+ * A skill's content and hash, as read for composition
+ */
+export interface ComposeSource {
+  content: string;
+  sha256: string;
+}
+
+/**
+ * Read a skill for composition
+ */
+export type SkillReader = (slug: string) => ComposeSource | null;
+
+/**
+ * Result of composing a skill
+ */
+export interface ComposeResult {
+  content: string;
+  includes: Record<string, string>; // Every skill pulled in, directly or not (slug → sha256)
+}
+
+/**
+ * A skill in a dependency graph
+ */
+export interface DependencyNode extends SkillReference {
+  missing?: boolean; // Not in the local registry
+  cycle?: boolean; // Already on the path from the root
+  children: DependencyNode[];
+}
+
+// `<!-- include: slug -->` or `<!-- include: slug#Heading -->` on its own line
+const INCLUDE_PATTERN = /^<!--[ \t]*include:[ \t]*([a-z0-9-]+)(?:#([^\n]*?))?[ \t]*-->[ \t]*$/gm;
+
+// A composed include: the directive, the included content and a closing marker
+const INCLUDE_BLOCK_PATTERN = /^(<!--\s*include:\s*([^\n]+?)\s*-->)[ \t]*\n([\s\S]*?)\n<!--\s*\/include:\s*\2\s*-->[ \t]*$/gm;
+
+// A composed base skill, inserted after the frontmatter
+const EXTENDS_BLOCK_PATTERN = /^<!--\s*extends:\s*([a-z0-9-]+)\s*-->[ \t]*\n([\s\S]*?)\n<!--\s*\/extends:\s*\1\s*-->[ \t]*\n/gm;
+
+const VERSION_COMMENT_PATTERN = /<!--\s*version:\s*[^\s]+\s*-->/g;
+
+/**
+ * Read a skill's current content from the local registry
+ */
+export function readRegistrySkill(slug: string): ComposeSource | null {
+  const skill = localRegistry.skillExists(slug) ? localRegistry.getSkill(slug) : null;
+  return skill ? { content: skill.content, sha256: skill.sha256 } : null;
+}
+
+/**
+ * Read the `extends` frontmatter key (a slug or a list of slugs)
+ */
+function readExtends(content: string): string[] {
+  const value = parseFrontmatter(content).frontmatter.extends;
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list.filter((v): v is string => typeof v === 'string').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * List the skills a SKILL.md references directly, in order
+ */
+export function findReferences(content: string): SkillReference[] {
+  const references: SkillReference[] = readExtends(content).map((slug) => ({ kind: 'extends', slug }));
+  for (const match of content.matchAll(INCLUDE_PATTERN)) {
+    references.push({ kind: 'include', slug: match[1], ...(match[2]?.trim() ? { section: match[2].trim() } : {}) });
+  }
+  return references;
+}
+
+/**
+ * Check if a SKILL.md references other skills
+ */
+export function hasReferences(content: string): boolean {
+  return findReferences(content).length > 0;
+}
+
+/**
+ * Display a reference, e.g. `base-conventions#Testing`
+ */
+export function formatReference(reference: SkillReference): string {
+  return reference.section ? `${reference.slug}#${reference.section}` : reference.slug;
+}
+
+/**
+ * The part of a skill that gets pulled into another: its body without the
+ * frontmatter or version comment
+ */
+function toIncludedText(content: string): string {
+  const block = splitFrontmatter(content);
+  return (block ? block.body : content).replace(VERSION_COMMENT_PATTERN, '').trim();
+}
+
+/**
+ * Compose content, recording every skill pulled in
+ *
+ * @param chain Slugs being composed, outermost first (for cycle detection)
+ * @param marked Whether to wrap pulled-in content in markers (only the installed skill itself is)
+ */
+function compose(
+  content: string,
+  chain: string[],
+  read: SkillReader,
+  includes: Record<string, string>,
+  marked: boolean
+): string {
+  const load = (slug: string): string => {
+    if (chain.includes(slug)) {
+      throw new Error(`Include cycle: ${[...chain, slug].join(' → ')}`);
+    }
+    const source = read(slug);
+    if (!source) {
+      throw new Error(`Included skill '${slug}' not found in the local registry`);
+    }
+    includes[slug] = source.sha256;
+    return toIncludedText(compose(source.content, [...chain, slug], read, includes, false));
+  };
+
+  const block = splitFrontmatter(content);
+  let body = block ? block.body : content;
+
+  body = body.replace(INCLUDE_PATTERN, (directive, slug: string, section: string | undefined) => {
+    let text = load(slug);
+    if (section?.trim()) {
+      const extracted = extractSection(text, section);
+      if (extracted === null) {
+        throw new Error(`Section '${section.trim()}' not found in '${slug}'`);
+      }
+      text = extracted;
+    }
+    // The closing marker repeats the reference exactly as written
+    const ref = directive.replace(/^<!--[ \t]*include:[ \t]*/, '').replace(/[ \t]*-->[ \t]*$/, '');
+    return marked ? `${directive}\n${text}\n<!-- /include: ${ref} -->` : text;
+  });
+
+  let bases = '';
+  for (const slug of readExtends(content)) {
+    const text = load(slug);
+    bases += marked ? `<!-- extends: ${slug} -->\n${text}\n<!-- /extends: ${slug} -->\n` : `${text}\n\n`;
+  }
+
+  body = bases + (marked ? body : body.replace(/^\n+/, ''));
+
+  return block ? `---\n${block.yaml}\n---\n${body}` : body;
+}
+
+/**
+ * Compose a skill: resolve its `extends` and includes from the local registry
+ *
+ * @throws On include cycles, and missing skills or sections
+ */
+export function composeSkill(slug: string, content: string, read: SkillReader = readRegistrySkill): ComposeResult {
+  const includes: Record<string, string> = {};
+  const composed = compose(content, [slug], read, includes, true);
+  return { content: composed, includes };
+}
+
+/**
+ * Turn composed content back into its source: included content is dropped
+ * (keeping the directives) and base skills are removed
+ */
+export function decomposeSkill(content: string): string {
+  return content.replace(EXTENDS_BLOCK_PATTERN, '').replace(INCLUDE_BLOCK_PATTERN, '$1');
+}
+
+/**
+ * Collect the pulled-in blocks of composed content, keyed by directive
+ */
+function collectBlocks(content: string): Map<string, string[]> {
+  const blocks = new Map<string, string[]>();
+  const add = (key: string, text: string) => blocks.set(key, [...(blocks.get(key) || []), text]);
+
+  for (const match of content.matchAll(EXTENDS_BLOCK_PATTERN)) {
+    add(`extends: ${match[1]}`, match[2]);
+  }
+  for (const match of content.matchAll(INCLUDE_BLOCK_PATTERN)) {
+    add(`include: ${match[2]}`, match[3]);
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the lines of composed content that were pulled in from other skills,
+ * markers included
+ *
+ * @returns 1-based line numbers
+ */
+export function findPulledInLines(content: string): Set<number> {
+  const lines = new Set<number>();
+  for (const pattern of [EXTENDS_BLOCK_PATTERN, INCLUDE_BLOCK_PATTERN]) {
+    for (const match of content.matchAll(pattern)) {
+      const start = content.slice(0, match.index).split('\n').length;
+      const count = match[0].replace(/\n$/, '').split('\n').length;
+      for (let line = start; line < start + count; line++) {
+        lines.add(line);
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Find pulled-in content that was edited in an installed copy. Those edits
+ * would be lost when the copy is decomposed; they belong in the other skill.
+ *
+ * @param synced The composed content as it was installed
+ * @returns The references whose content differs, e.g. `include: base#Testing`
+ */
+export function findEditedIncludes(installed: string, synced: string): string[] {
+  const before = collectBlocks(synced);
+  const edited: string[] = [];
+
+  for (const [key, texts] of collectBlocks(installed)) {
+    const original = before.get(key);
+    if (original && texts.some((text, i) => original[i] !== undefined && text !== original[i])) {
+      edited.push(key);
+    }
+  }
+
+  return edited;
+}
+
+/**
+ * Read an installed skill for saving or pushing: a project override is taken
+ * back out and composed content is turned back into its source
+ *
+ * @returns The source content, the installed content if it differs from the
+ *   source, and the content without the override if the skill has one
+ * @throws If content pulled in from another skill was edited, or local edits overlap the override
+ */
+export function readInstalledSource(
+  slug: string
+): { content: string; composed: string | null; overrideBase: string | null } | null {
+  const installed = fs.readSkillContent(slug);
+  if (installed === null) {
+    return null;
+  }
+
+  const meta = fs.readSkillMeta(slug);
+  let synced = meta?.sha256 ? localRegistry.readObject(meta.sha256) : null;
+  let content = installed;
+  let overrideBase: string | null = null;
+
+  if (meta?.override && meta.override_base) {
+    const base = localRegistry.readObject(meta.override_base);
+    if (base === null || synced === null) {
+      throw new Error('The content the project override was applied to is missing; run `skill sync` first');
+    }
+    content = removeOverride(installed, synced, base, findOverride(slug)?.path ?? OVERRIDES_DIR);
+    overrideBase = content;
+    synced = base;
+  }
+
+  const source = decomposeSkill(content);
+  if (source === installed) {
+    return { content: source, composed: null, overrideBase };
+  }
+
+  const edited = synced ? findEditedIncludes(content, synced) : [];
+  if (edited.length > 0) {
+    throw new Error(
+      `Content from another skill was edited (${edited.join(', ')}); make those edits in that skill instead`
+    );
+  }
+
+  return { content: source, composed: installed, overrideBase };
+}
+
+/**
+ * Build the tree of skills a SKILL.md pulls in
+ */
+export function getDependencyTree(
+  slug: string,
+  content: string,
+  read: SkillReader = readRegistrySkill
+): DependencyNode[] {
+  const build = (refs: SkillReference[], chain: string[]): DependencyNode[] =>
+    refs.map((reference) => {
+      if (chain.includes(reference.slug)) {
+        return { ...reference, cycle: true, children: [] };
+      }
+      const source = read(reference.slug);
+      if (!source) {
+        return { ...reference, missing: true, children: [] };
+      }
+      return { ...reference, children: build(findReferences(source.content), [...chain, reference.slug]) };
+    });
+
+  return build(findReferences(content), [slug]);
+}
+
+/**
+ * List the local registry skills that reference a skill directly
+ */
+export function findDependents(slug: string): string[] {
+  return localRegistry
+    .listSkills()
+    .filter((skill) => skill.slug !== slug)
+    .filter((skill) => {
+      const source = readRegistrySkill(skill.slug);
+      return !!source && findReferences(source.content).some((reference) => reference.slug === slug);
+    })
+    .map((skill) => skill.slug);
+}
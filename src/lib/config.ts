@@ -8,6 +8,10 @@ import type {
   LocalSource,
   CloudSource,
   LegacySource,
+  LintConfig,
+  TargetName,
+  IntegrationsConfig,
+  PackEntry,
 } from '../types.js';
 import { isLocalSource, isCloudSource } from '../types.js';
 
@@ -112,6 +116,10 @@ export function readConfig(): SkillsConfig {
     sources,
     install_path: (parsed.install_path as string) || '.claude/skills',
     skills: (parsed.skills as SkillEntry[]) || [],
+    ...(parsed.lint ? { lint: parsed.lint as LintConfig } : {}),
+    ...(Array.isArray(parsed.targets) ? { targets: parsed.targets as TargetName[] } : {}),
+    ...(parsed.integrations ? { integrations: parsed.integrations as IntegrationsConfig } : {}),
+    ...(Array.isArray(parsed.packs) ? { packs: parsed.packs as PackEntry[] } : {}),
   };
 }
 
@@ -189,6 +197,15 @@ export function removeSkill(slug: string, source?: string): boolean {
   return false;
 }
 
+/**
+ * Record a pack added to the project (replacing an entry with the same name)
+ */
+export function addPack(pack: PackEntry): void {
+  const config = readConfig();
+  config.packs = [...(config.packs || []).filter((p) => p.name !== pack.name), pack];
+  writeConfig(config);
+}
+
 /**
  * Get the install path (absolute)
  */
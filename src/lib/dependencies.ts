@@ -0,0 +1,240 @@
+/**
+ * Skill dependencies
+ *
+ * A skill lists the skills it needs under `requires` in its SKILL.md
+ * frontmatter, each a slug or `slug@constraint`. `skill add` adds them to
+ * .skills.yaml transitively, marking those entries `dependency: true` so
+ * `skill remove` can prune them once nothing needs them any more.
+ */
+
+import { parseFrontmatter } from './frontmatter.js';
+import * as config from './config.js';
+import * as fs from './fs.js';
+import * as localRegistry from './local-registry/index.js';
+import * as resolver from './resolver.js';
+import * as semverLib from './semver.js';
+import type { ResolvedSkill } from './resolver.js';
+import type { SkillEntry } from '../types.js';
+
+/**
+ * A skill another skill requires
+ */
+export interface SkillRequirement {
+  slug: string;
+  version?: string; // Semver constraint, for `slug@constraint`
+}
+
+/**
+ * An entry `skill add` adds because another skill requires it
+ */
+export interface PlannedDependency {
+  entry: SkillEntry;
+  requiredBy: string;
+  version?: string; // The version it resolves to
+}
+
+/**
+ * Entries to add for a set of skills, and the problems found on the way
+ */
+export interface DependencyPlan {
+  dependencies: PlannedDependency[];
+  problems: string[]; // Cycles, version conflicts and unresolvable skills
+}
+
+/**
+ * Parse a `slug` or `slug@constraint` requirement
+ */
+export function parseRequirement(spec: string): SkillRequirement {
+  const separatorIndex = spec.indexOf('@');
+  if (separatorIndex <= 0) {
+    return { slug: spec.trim() };
+  }
+
+  const version = spec.slice(separatorIndex + 1).trim();
+  return {
+    slug: spec.slice(0, separatorIndex).trim(),
+    ...(version ? { version } : {}),
+  };
+}
+
+/**
+ * Display a requirement, e.g. `react-conventions@^2.0.0`
+ */
+export function formatRequirement(requirement: SkillRequirement): string {
+  return requirement.version ? `${requirement.slug}@${requirement.version}` : requirement.slug;
+}
+
+/**
+ * Read the `requires` frontmatter key (a list, or a comma-separated string)
+ */
+export function readRequires(content: string): SkillRequirement[] {
+  const value = parseFrontmatter(content).frontmatter.requires;
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list
+    .filter((v): v is string => typeof v === 'string' && !!v.trim())
+    .map(parseRequirement);
+}
+
+/**
+ * Read what a project skill requires: from its installed copy, or the local
+ * registry when it isn't installed
+ */
+export function readInstalledRequires(slug: string): SkillRequirement[] {
+  const content =
+    fs.readSkillContent(slug) ?? (localRegistry.skillExists(slug) ? localRegistry.getSkill(slug)?.content : null);
+  return content ? readRequires(content) : [];
+}
+
+/**
+ * Check a resolved skill against a requirement's constraint
+ *
+ * @returns A description of the conflict, or null if the version satisfies it
+ */
+function checkConstraint(requirement: SkillRequirement, requiredBy: string, resolved: ResolvedSkill): string | null {
+  if (!requirement.version) {
+    return null;
+  }
+  if (!semverLib.isValidConstraint(requirement.version)) {
+    return `${requiredBy} requires ${formatRequirement(requirement)}, which is not a valid version constraint`;
+  }
+  if (!resolved.version || !semverLib.satisfies(resolved.version, requirement.version)) {
+    return `${requiredBy} requires ${formatRequirement(requirement)}, but the project installs ${resolved.version ? `v${resolved.version}` : 'an unversioned copy'}`;
+  }
+  return null;
+}
+
+/**
+ * Find the skills that adding entries brings in, following `requires`
+ * transitively. Dependencies come from the same source as the skill that
+ * requires them; skills already in .skills.yaml are kept as they are, and
+ * only checked against the constraint.
+ *
+ * @param entries The entries being added
+ * @param existing The entries already in .skills.yaml
+ */
+export async function planDependencies(entries: SkillEntry[], existing: SkillEntry[]): Promise<DependencyPlan> {
+  const plan: DependencyPlan = { dependencies: [], problems: [] };
+  const resolved = new Map<string, ResolvedSkill | null>();
+
+  const resolve = async (entry: SkillEntry): Promise<ResolvedSkill | null> => {
+    if (!resolved.has(entry.slug)) {
+      const result = await resolver.resolveSkills([entry]);
+      const error = result.errors[0];
+      if (error) {
+        plan.problems.push(`${entry.slug}: ${error.error}`);
+      }
+      resolved.set(entry.slug, result.skills[0] ?? null);
+    }
+    return resolved.get(entry.slug)!;
+  };
+
+  const findEntry = (slug: string): SkillEntry | undefined =>
+    entries.find((e) => e.slug === slug) ??
+    plan.dependencies.find((d) => d.entry.slug === slug)?.entry ??
+    existing.find((e) => e.slug === slug);
+
+  const queue = entries.map((entry) => ({ entry, chain: [entry.slug] }));
+  while (queue.length > 0) {
+    const { entry, chain } = queue.shift()!;
+    const skill = await resolve(entry);
+    if (!skill) continue;
+
+    for (const requirement of readRequires(skill.content)) {
+      if (chain.includes(requirement.slug)) {
+        plan.problems.push(`Dependency cycle: ${[...chain, requirement.slug].join(' → ')}`);
+        continue;
+      }
+
+      const known = findEntry(requirement.slug);
+      if (known) {
+        const knownSkill = await resolve(known);
+        const conflict = knownSkill ? checkConstraint(requirement, entry.slug, knownSkill) : null;
+        if (conflict) {
+          plan.problems.push(conflict);
+        }
+        continue;
+      }
+
+      const dependency: SkillEntry = {
+        slug: requirement.slug,
+        ...(entry.source ? { source: entry.source } : {}),
+        ...(requirement.version ? { version: requirement.version } : {}),
+        dependency: true,
+      };
+      const dependencySkill = await resolve(dependency);
+      if (!dependencySkill) continue;
+
+      plan.dependencies.push({ entry: dependency, requiredBy: entry.slug, version: dependencySkill.version });
+      queue.push({ entry: dependency, chain: [...chain, requirement.slug] });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Map each project skill to the project skills that require it
+ */
+function findRequirers(entries: SkillEntry[]): Map<string, string[]> {
+  const requirers = new Map<string, string[]>();
+  const slugs = new Set(entries.map((e) => e.slug));
+
+  for (const entry of entries) {
+    for (const requirement of readInstalledRequires(entry.slug)) {
+      if (!slugs.has(requirement.slug)) continue;
+      requirers.set(requirement.slug, [...(requirers.get(requirement.slug) || []), entry.slug]);
+    }
+  }
+
+  return requirers;
+}
+
+/**
+ * List the project skills that require a skill directly
+ */
+export function findRequiredBy(slug: string, entries: SkillEntry[] = config.readConfig().skills): string[] {
+  return findRequirers(entries).get(slug) || [];
+}
+
+/**
+ * Find the dependency entries nothing needs: entries marked `dependency` that
+ * no directly added entry requires, directly or not
+ */
+export function findUnneededDependencies(entries: SkillEntry[]): string[] {
+  const needed = new Set<string>();
+  const visit = (slug: string) => {
+    if (needed.has(slug)) return;
+    needed.add(slug);
+    for (const requirement of readInstalledRequires(slug)) {
+      if (entries.some((e) => e.slug === requirement.slug)) visit(requirement.slug);
+    }
+  };
+
+  for (const entry of entries) {
+    if (!entry.dependency) visit(entry.slug);
+  }
+
+  return entries.filter((e) => e.dependency && !needed.has(e.slug)).map((e) => e.slug);
+}
+
+/**
+ * Explain why a skill is in the project: every chain of `requires` leading to
+ * it from a directly added skill, e.g. `[nextjs-app-router, react-conventions]`
+ */
+export function explainDependency(slug: string, entries: SkillEntry[]): string[][] {
+  const requirers = findRequirers(entries);
+  const direct = new Set(entries.filter((e) => !e.dependency).map((e) => e.slug));
+  const chains: string[][] = [];
+
+  const walk = (current: string, path: string[]) => {
+    if (direct.has(current) && path.length > 1) {
+      chains.push(path);
+    }
+    for (const requirer of requirers.get(current) || []) {
+      if (!path.includes(requirer)) walk(requirer, [requirer, ...path]);
+    }
+  };
+
+  walk(slug, [slug]);
+  return chains;
+}
@@ -0,0 +1,250 @@
+/**
+ * Line-based unified diff (Myers' O(ND) algorithm)
+ */
+
+/**
+ * A line in a diff, as it appears in the old text, the new text, or both
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  noNewline?: boolean; // Last line of its text, without a trailing newline
+}
+
+/**
+ * A group of changes with surrounding context
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * A line of text, keyed so a missing trailing newline counts as a difference
+ */
+interface Line {
+  key: string;
+  text: string;
+  noNewline: boolean;
+}
+
+/**
+ * Split text into lines, remembering whether the last one ends with a newline
+ */
+function splitLines(text: string): Line[] {
+  if (text === '') {
+    return [];
+  }
+
+  const parts = text.split('\n');
+  const endsWithNewline = parts[parts.length - 1] === '';
+  if (endsWithNewline) {
+    parts.pop();
+  }
+
+  return parts.map((part, index) => {
+    const noNewline = !endsWithNewline && index === parts.length - 1;
+    return { key: noNewline ? `${part}\n\\` : part, text: part, noNewline };
+  });
+}
+
+/**
+ * Compute the shortest edit script between two lists of lines
+ */
+function myers(a: Line[], b: Line[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // trace[d] holds v[-d..d] after step d
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x].key === b[y].key) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  // Walk back from the end to recover the edits
+  const edits: DiffLine[] = [];
+  const line = (type: DiffLine['type'], source: Line): DiffLine =>
+    source.noNewline ? { type, text: source.text, noNewline: true } : { type, text: source.text };
+
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push(line('context', a[x - 1]));
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      edits.push(line('added', b[y - 1]));
+    } else {
+      edits.push(line('removed', a[x - 1]));
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push(line('context', a[x - 1]));
+    x--;
+    y--;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Diff two lists of lines (compared exactly, with no newline handling)
+ */
+export function diffLineArrays(oldLines: string[], newLines: string[]): DiffLine[] {
+  const toLines = (lines: string[]): Line[] => lines.map((text) => ({ key: text, text, noNewline: false }));
+  return myers(toLines(oldLines), toLines(newLines));
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  return myers(splitLines(oldText), splitLines(newText));
+}
+
+/**
+ * Group a diff into hunks with the given number of context lines
+ */
+export function createHunks(oldText: string, newText: string, context: number = 3): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+
+  // Number of old/new lines before each diff line
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.type !== 'added') oldCount++;
+    if (line.type !== 'removed') newCount++;
+  }
+
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'context') {
+      i++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    let last = i;
+    let j = i + 1;
+    while (j < lines.length) {
+      if (lines[j].type !== 'context') {
+        last = j;
+        j++;
+        continue;
+      }
+
+      let next = j;
+      while (next < lines.length && lines[next].type === 'context') next++;
+      if (next < lines.length && next - j <= 2 * context) {
+        j = next;
+        continue;
+      }
+      break;
+    }
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, last + context + 1);
+    const hunkLines = lines.slice(start, end);
+
+    const oldLines = hunkLines.filter((l) => l.type !== 'added').length;
+    const newLines = hunkLines.filter((l) => l.type !== 'removed').length;
+
+    hunks.push({
+      // An empty range starts at the line before it, as in `diff -u`
+      oldStart: oldLines > 0 ? oldBefore[start] + 1 : oldBefore[start],
+      oldLines,
+      newStart: newLines > 0 ? newBefore[start] + 1 : newBefore[start],
+      newLines,
+      lines: hunkLines,
+    });
+
+    i = end;
+  }
+
+  return hunks;
+}
+
+/**
+ * Format a hunk header, e.g. `@@ -1,4 +1,5 @@`
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  const range = (start: number, count: number) => (count === 1 ? `${start}` : `${start},${count}`);
+  return `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`;
+}
+
+/**
+ * Format a unified diff as plain text lines (empty if the texts are identical)
+ */
+export function formatUnifiedDiff(
+  oldLabel: string,
+  newLabel: string,
+  oldText: string,
+  newText: string,
+  context: number = 3
+): string[] {
+  const hunks = createHunks(oldText, newText, context);
+  if (hunks.length === 0) {
+    return [];
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  const prefix = { context: ' ', added: '+', removed: '-' };
+
+  for (const hunk of hunks) {
+    output.push(formatHunkHeader(hunk));
+    for (const line of hunk.lines) {
+      output.push(`${prefix[line.type]}${line.text}`);
+      if (line.noNewline) {
+        output.push('\\ No newline at end of file');
+      }
+    }
+  }
+
+  return output;
+}
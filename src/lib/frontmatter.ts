@@ -0,0 +1,29 @@
+import * as yaml from 'yaml';
+
+/**
+ * Split markdown content into its raw frontmatter block and body
+ *
+ * @returns null if the content has no frontmatter block
+ */
+export function splitFrontmatter(content: string): { yaml: string; body: string } | null {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+  return match ? { yaml: match[1], body: match[2] } : null;
+}
+
+/**
+ * Parse YAML frontmatter from markdown content
+ */
+export function parseFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
+  const block = splitFrontmatter(content);
+
+  if (!block) {
+    return { frontmatter: {}, body: content };
+  }
+
+  try {
+    const frontmatter = yaml.parse(block.yaml) || {};
+    return { frontmatter, body: block.body };
+  } catch {
+    return { frontmatter: {}, body: content };
+  }
+}
@@ -1,7 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import * as yaml from 'yaml';
-import { getInstallPath, findProjectRoot } from './config.js';
+import { getInstallPath, findProjectRoot, readConfig } from './config.js';
+import { collectSkillFiles, writeSkillFiles, toManifest, compareManifests } from './skill-files.js';
+import type { SkillFiles, SkillFileChange } from './skill-files.js';
+import type { SkillMetadata } from './metadata.js';
 import type { SkillMeta, SyncSkillResponse } from '../types.js';
 
 /**
@@ -17,9 +21,79 @@ export function ensureDir(dirPath: string): void {
  * Get the skill directory path
  */
 export function getSkillDir(slug: string): string {
+  if (isClaudeLoadedInstallPath()) {
+    const unlistedDir = path.join(getUnlistedSkillsDir(), slug);
+    if (fs.existsSync(unlistedDir)) {
+      return unlistedDir;
+    }
+  }
   return path.join(getInstallPath(), slug);
 }
 
+/**
+ * Project-relative directory for skills that Claude shouldn't load
+ */
+export const UNLISTED_SKILLS_PATH = '.overskill/skills';
+
+/**
+ * Get the directory for skills that Claude shouldn't load. Used when the
+ * install path is .claude/skills itself, so skills whose compat doesn't
+ * include Claude are kept out of it.
+ */
+export function getUnlistedSkillsDir(): string {
+  const projectRoot = findProjectRoot() || process.cwd();
+  return path.join(projectRoot, UNLISTED_SKILLS_PATH);
+}
+
+/**
+ * Check whether skills are installed directly into .claude/skills
+ */
+export function isClaudeLoadedInstallPath(): boolean {
+  return path.resolve(getInstallPath()) === path.resolve(getClaudeSkillsDir());
+}
+
+/**
+ * Move an installed skill in or out of the unlisted skills directory.
+ * Does nothing unless the install path is .claude/skills.
+ */
+export function setSkillUnlisted(slug: string, unlisted: boolean): void {
+  if (!isClaudeLoadedInstallPath()) {
+    return;
+  }
+
+  const listedDir = path.join(getInstallPath(), slug);
+  const unlistedDir = path.join(getUnlistedSkillsDir(), slug);
+  const [from, to] = unlisted ? [listedDir, unlistedDir] : [unlistedDir, listedDir];
+  if (!fs.existsSync(from) || fs.existsSync(to)) {
+    return;
+  }
+
+  ensureDir(path.dirname(to));
+  fs.renameSync(from, to);
+  removeEmptyDirs(getUnlistedSkillsDir());
+
+  // Keep unlisted skills out of git too if the install path is
+  if (unlisted && removeGitignoreEntry(readConfig().install_path, { dryRun: true })) {
+    updateGitignore(UNLISTED_SKILLS_PATH);
+  }
+}
+
+/**
+ * Remove a directory and its parents while they are empty, stopping at the project root
+ */
+export function removeEmptyDirs(dir: string): void {
+  const root = path.resolve(findProjectRoot() || process.cwd());
+  let current = path.resolve(dir);
+
+  while (current !== root && current.startsWith(root + path.sep)) {
+    if (!fs.existsSync(current) || fs.readdirSync(current).length > 0) {
+      return;
+    }
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+}
+
 /**
  * Get the .claude/skills directory path (single source of truth for all agents)
  */
@@ -36,11 +110,14 @@ export function getSystemDir(): string {
 }
 
 /**
- * Write a skill to disk
+ * Write a skill to disk, including its supporting files.
+ * Supporting files from the previously installed version that are no longer
+ * part of the skill are removed.
  */
 export function writeSkill(
   skill: SyncSkillResponse,
-  meta: Omit<SkillMeta, 'sha256'>
+  meta: Omit<SkillMeta, 'sha256' | 'files'>,
+  files: SkillFiles = {}
 ): void {
   const skillDir = getSkillDir(skill.slug);
   ensureDir(skillDir);
@@ -49,15 +126,36 @@ export function writeSkill(
   const skillPath = path.join(skillDir, 'SKILL.md');
   fs.writeFileSync(skillPath, skill.content, 'utf-8');
 
+  // Write supporting files
+  const previous = Object.keys(readSkillMeta(skill.slug)?.files || {});
+  writeSkillFiles(skillDir, files, previous);
+
   // Write meta.yaml
   const metaPath = path.join(skillDir, 'meta.yaml');
+  const manifest = toManifest(files);
   const fullMeta: SkillMeta = {
     ...meta,
     sha256: skill.sha256,
+    ...(Object.keys(manifest).length > 0 ? { files: manifest } : {}),
   };
   fs.writeFileSync(metaPath, yaml.stringify(fullMeta), 'utf-8');
 }
 
+/**
+ * Overwrite the working copy of an installed skill (e.g. with merged content)
+ * without changing the synced baseline recorded in meta.yaml. Supporting files
+ * in the baseline manifest that aren't in `files` are removed.
+ */
+export function writeSkillWorkingCopy(slug: string, content: string, files: SkillFiles): void {
+  const skillDir = getSkillDir(slug);
+  ensureDir(skillDir);
+
+  fs.writeFileSync(path.join(skillDir, 'SKILL.md'), content, 'utf-8');
+
+  const previous = Object.keys(readSkillMeta(slug)?.files || {});
+  writeSkillFiles(skillDir, files, previous);
+}
+
 /**
  * Read a skill's content from disk
  */
@@ -69,6 +167,14 @@ export function readSkillContent(slug: string): string | null {
   return fs.readFileSync(skillPath, 'utf-8');
 }
 
+/**
+ * Read a skill's supporting files from disk (everything next to SKILL.md
+ * except meta.yaml)
+ */
+export function readSkillFiles(slug: string): SkillFiles {
+  return collectSkillFiles(getSkillDir(slug));
+}
+
 /**
  * Read a skill's metadata from disk
  */
@@ -89,6 +195,9 @@ export function deleteSkill(slug: string): void {
   if (fs.existsSync(skillDir)) {
     fs.rmSync(skillDir, { recursive: true });
   }
+  if (isClaudeLoadedInstallPath()) {
+    removeEmptyDirs(getUnlistedSkillsDir());
+  }
 }
 
 /**
@@ -99,52 +208,133 @@ export function skillExists(slug: string): boolean {
   return fs.existsSync(skillPath);
 }
 
+/**
+ * Get the directories skills are installed into: the install path, plus the
+ * unlisted skills directory when the install path is .claude/skills
+ */
+function getSkillRoots(): string[] {
+  return isClaudeLoadedInstallPath() ? [getInstallPath(), getUnlistedSkillsDir()] : [getInstallPath()];
+}
+
 /**
  * List all skills on disk
  */
 export function listLocalSkills(): string[] {
-  const installPath = getInstallPath();
-  if (!fs.existsSync(installPath)) {
-    return [];
-  }
+  return getSkillRoots().flatMap(root => {
+    if (!fs.existsSync(root)) {
+      return [];
+    }
 
-  return fs.readdirSync(installPath)
-    .filter(name => {
-      // Skip system folder and index
-      if (name === '_system' || name === 'SKILLS_INDEX.md') {
-        return false;
-      }
-      const skillPath = path.join(installPath, name, 'SKILL.md');
-      return fs.existsSync(skillPath);
-    });
+    return fs.readdirSync(root)
+      .filter(name => {
+        // Skip system folder and index
+        if (name === '_system' || name === 'SKILLS_INDEX.md') {
+          return false;
+        }
+        const skillPath = path.join(root, name, 'SKILL.md');
+        return fs.existsSync(skillPath);
+      });
+  });
 }
 
 /**
- * Check if a skill is modified locally
+ * Local edits to an installed skill, relative to what was last synced
  */
-export function isSkillModified(slug: string): boolean {
-  const markerPath = path.join(getSkillDir(slug), '.modified');
-  return fs.existsSync(markerPath);
+export interface SkillModification {
+  content: boolean; // SKILL.md differs from the synced sha256
+  files: SkillFileChange[]; // Supporting files added, modified or deleted
 }
 
 /**
- * Mark a skill as modified
+ * Compare an installed skill with the hashes recorded in its meta.yaml
+ *
+ * @returns The local edits, or null if the skill isn't installed or has no recorded hash
  */
-export function markSkillModified(slug: string): void {
-  const markerPath = path.join(getSkillDir(slug), '.modified');
-  fs.writeFileSync(markerPath, new Date().toISOString(), 'utf-8');
+export function getSkillModification(slug: string): SkillModification | null {
+  const content = readSkillContent(slug);
+  const meta = readSkillMeta(slug);
+  if (content === null || !meta?.sha256) {
+    return null;
+  }
+
+  return {
+    content: computeHash(content) !== meta.sha256,
+    files: compareManifests(meta.files, toManifest(readSkillFiles(slug))),
+  };
+}
+
+/**
+ * Check if a skill has been edited locally since it was last synced or saved
+ */
+export function isSkillModified(slug: string): boolean {
+  const modification = getSkillModification(slug);
+  return !!modification && (modification.content || modification.files.length > 0);
 }
 
 /**
- * Unmark a skill as modified
+ * Record the installed copy of a skill as its synced baseline (after it was
+ * saved or pushed), so it no longer reports as modified
+ *
+ * @param options.sha256 Hash of SKILL.md, if already known
+ * @param options.files Also record the supporting files (default: true)
+ * @param options.metadata Metadata saved with the skill, mirrored into meta.yaml
+ * @param options.overrideBase Hash of the saved content the project override now applies to
  */
-export function unmarkSkillModified(slug: string): void {
+export function markSkillSaved(
+  slug: string,
+  options: { sha256?: string; files?: boolean; metadata?: SkillMetadata; overrideBase?: string } = {}
+): void {
+  const meta = readSkillMeta(slug);
+  const content = readSkillContent(slug);
+  if (!meta || content === null) {
+    return;
+  }
+
+  const manifest = options.files === false ? meta.files || {} : toManifest(readSkillFiles(slug));
+  const sha256 = options.sha256;
+  const { files: _files, ...rest } = meta;
+  const updatedMeta: SkillMeta = {
+    ...rest,
+    ...(options.metadata
+      ? {
+          name: options.metadata.name,
+          description: options.metadata.description,
+          tags: options.metadata.tags,
+          compat: options.metadata.compat,
+        }
+      : {}),
+    sha256: sha256 || computeHash(content),
+    ...(options.overrideBase ? { override_base: options.overrideBase } : {}),
+    ...(Object.keys(manifest).length > 0 ? { files: manifest } : {}),
+  };
+  fs.writeFileSync(path.join(getSkillDir(slug), 'meta.yaml'), yaml.stringify(updatedMeta), 'utf-8');
+
+  // Clean up the marker file used by older versions
   const markerPath = path.join(getSkillDir(slug), '.modified');
   if (fs.existsSync(markerPath)) {
     fs.unlinkSync(markerPath);
   }
 }
 
+/**
+ * Update the metadata mirrored in a skill's meta.yaml, keeping its synced baseline
+ */
+export function writeSkillMetadata(slug: string, metadata: SkillMetadata): void {
+  const meta = readSkillMeta(slug);
+  if (!meta) {
+    return;
+  }
+
+  const updatedMeta: SkillMeta = {
+    ...meta,
+    name: metadata.name,
+    description: metadata.description,
+    tags: metadata.tags,
+    compat: metadata.compat,
+  };
+  fs.writeFileSync(path.join(getSkillDir(slug), 'meta.yaml'), yaml.stringify(updatedMeta), 'utf-8');
+}
+
 /**
  * Write the system (meta) skill
  */
@@ -181,93 +371,35 @@ export function updateGitignore(installPath: string): void {
 }
 
 /**
- * Upsert a managed section (between start/end markers) in a markdown file.
- * Creates the file if it doesn't exist, appends if no section found, replaces if found.
+ * Remove the block added to .gitignore by updateGitignore, deleting the file
+ * if nothing else is left in it
+ *
+ * @returns Whether .gitignore had the block
  */
-function upsertManagedSection(
-  filePath: string,
-  startMarker: string,
-  endMarker: string,
-  section: string
-): void {
-  if (!fs.existsSync(filePath)) {
-    fs.writeFileSync(filePath, section + '\n', 'utf-8');
-    return;
+export function removeGitignoreEntry(installPath: string, options: { dryRun?: boolean } = {}): boolean {
+  const projectRoot = findProjectRoot() || process.cwd();
+  const gitignorePath = path.join(projectRoot, '.gitignore');
+  if (!fs.existsSync(gitignorePath)) {
+    return false;
   }
 
-  let content = fs.readFileSync(filePath, 'utf-8');
-  const startIdx = content.indexOf(startMarker);
-  const endIdx = content.indexOf(endMarker);
+  const content = fs.readFileSync(gitignorePath, 'utf-8');
+  const block = `# Skills (synced files, not committed)\n${installPath}/\n`;
+  const index = content.indexOf(block);
+  if (index === -1) {
+    return false;
+  }
+  if (options.dryRun) {
+    return true;
+  }
 
-  if (startIdx !== -1 && endIdx !== -1) {
-    content = content.slice(0, startIdx) + section + content.slice(endIdx + endMarker.length);
+  const remaining = (content.slice(0, index).replace(/\n+$/, '\n') + content.slice(index + block.length)).replace(/^\n+/, '');
+  if (remaining.trim() === '') {
+    fs.unlinkSync(gitignorePath);
   } else {
-    if (!content.endsWith('\n')) {
-      content += '\n';
-    }
-    content += '\n' + section + '\n';
+    fs.writeFileSync(gitignorePath, remaining, 'utf-8');
   }
-
-  fs.writeFileSync(filePath, content, 'utf-8');
-}
-
-function overskillMdSection(): string {
-  const startMarker = '<!-- overskill-start -->';
-  const endMarker = '<!-- overskill-end -->';
-  return `${startMarker}
-## Overskill Skills
-
-This project uses Overskill to manage reusable AI skills.
-
-Before starting any task, read \`.claude/skills/SKILLS_INDEX.md\` to discover available skills. When a skill is relevant to your current task, read its full SKILL.md file and follow its instructions.
-
-To manage skills, use the \`skill\` CLI command (run \`skill --help\` for usage).
-${endMarker}`;
-}
-
-/**
- * Add or update the Overskill section in CLAUDE.md
- */
-export function updateClaudeMd(): void {
-  const projectRoot = findProjectRoot() || process.cwd();
-  const filePath = path.join(projectRoot, 'CLAUDE.md');
-  upsertManagedSection(filePath, '<!-- overskill-start -->', '<!-- overskill-end -->', overskillMdSection());
-}
-
-/**
- * Add or update the Overskill section in AGENTS.md
- */
-export function updateAgentsMd(): void {
-  const projectRoot = findProjectRoot() || process.cwd();
-  const filePath = path.join(projectRoot, 'AGENTS.md');
-  upsertManagedSection(filePath, '<!-- overskill-start -->', '<!-- overskill-end -->', overskillMdSection());
-}
-
-/**
- * Add or update the Overskill rule in .cursor/rules/
- */
-export function updateCursorRules(): void {
-  const projectRoot = findProjectRoot() || process.cwd();
-  const rulesDir = path.join(projectRoot, '.cursor', 'rules');
-  ensureDir(rulesDir);
-
-  const rulePath = path.join(rulesDir, 'overskill.mdc');
-  const content = `---
-description: Discover and apply Overskill skills for this project
-globs:
-alwaysApply: true
----
-
-## Overskill Skills
-
-This project uses Overskill to manage reusable AI skills.
-
-Before starting any task, read \`.claude/skills/SKILLS_INDEX.md\` to discover available skills. When a skill is relevant to your current task, read its full SKILL.md file and follow its instructions.
-
-To manage skills, use the \`skill\` CLI command (run \`skill --help\` for usage).
-`;
-
-  fs.writeFileSync(rulePath, content, 'utf-8');
+  return true;
 }
 
 /**
@@ -291,6 +423,11 @@ export function syncClaudeNativeSkills(syncedSlugs: string[]): void {
   const installPath = getInstallPath();
   const claudeSkillsDir = path.join(projectRoot, '.claude', 'skills');
 
+  // Remove links whose target skill directory no longer exists
+  for (const link of findBrokenNativeSkillLinks()) {
+    fs.unlinkSync(path.join(claudeSkillsDir, link));
+  }
+
   // If skills are already installed directly into .claude/skills, no symlinks needed
   if (path.resolve(installPath) === path.resolve(claudeSkillsDir)) {
     return;
@@ -342,24 +479,96 @@ export function syncClaudeNativeSkills(syncedSlugs: string[]): void {
 }
 
 /**
- * Remove a single skill's directory symlink from .claude/skills/
+ * List the skill directory symlinks in .claude/skills/ that point into the install path
+ *
+ * @returns The names of the links
+ */
+export function listClaudeNativeSkillLinks(): string[] {
+  const projectRoot = findProjectRoot() || process.cwd();
+  const installPath = getInstallPath();
+  const claudeSkillsDir = path.join(projectRoot, '.claude', 'skills');
+
+  if (!fs.existsSync(claudeSkillsDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(claudeSkillsDir)
+    .filter(entry => {
+      const fullPath = path.join(claudeSkillsDir, entry);
+      if (!isSymlink(fullPath)) return false;
+      try {
+        return path.resolve(claudeSkillsDir, fs.readlinkSync(fullPath)).startsWith(installPath + path.sep);
+      } catch {
+        return false;
+      }
+    })
+    .sort();
+}
+
+/**
+ * Find skill directory symlinks in .claude/skills/ that point into the install
+ * path but whose target no longer exists
+ *
+ * @returns The names of the broken links
  */
-export function removeClaudeNativeSkill(slug: string): void {
+export function findBrokenNativeSkillLinks(): string[] {
   const projectRoot = findProjectRoot() || process.cwd();
-  const linkPath = path.join(projectRoot, '.claude', 'skills', slug);
+  const installPath = getInstallPath();
+  const claudeSkillsDir = path.join(projectRoot, '.claude', 'skills');
+
+  if (!fs.existsSync(claudeSkillsDir)) {
+    return [];
+  }
 
-  if (isSymlink(linkPath)) {
-    fs.unlinkSync(linkPath);
+  const broken: string[] = [];
+  for (const entry of fs.readdirSync(claudeSkillsDir)) {
+    const fullPath = path.join(claudeSkillsDir, entry);
+    if (!isSymlink(fullPath)) continue;
+
+    try {
+      const resolvedTarget = path.resolve(claudeSkillsDir, fs.readlinkSync(fullPath));
+      if (resolvedTarget.startsWith(installPath + path.sep) && !fs.existsSync(resolvedTarget)) {
+        broken.push(entry);
+      }
+    } catch {
+      // Skip entries we can't read
+    }
   }
+
+  return broken.sort();
+}
+
+/**
+ * List directories in the install path that were written by sync (they have a meta.yaml)
+ */
+export function listSyncedSkillDirs(): string[] {
+  return getSkillRoots()
+    .flatMap(root => {
+      if (!fs.existsSync(root)) {
+        return [];
+      }
+
+      return fs.readdirSync(root, { withFileTypes: true })
+        .filter(entry => {
+          if (!entry.isDirectory() || entry.name === '_system') return false;
+          return fs.existsSync(path.join(root, entry.name, 'meta.yaml'));
+        })
+        .map(entry => entry.name);
+    })
+    .sort();
+}
+
+/**
+ * Find directories in the install path that were written by sync but whose
+ * skill is no longer configured
+ */
+export function findOrphanedSkillDirs(configuredSlugs: string[]): string[] {
+  return listSyncedSkillDirs().filter(slug => !configuredSlugs.includes(slug));
 }
 
 /**
- * Compute SHA256 hash of content
+ * Compute SHA256 hash of content (matches the hashes recorded in meta.yaml)
  */
-export async function computeHash(content: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(content);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+export function computeHash(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
 }
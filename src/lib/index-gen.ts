@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { listLocalSkills, readSkillMeta, getClaudeSkillsDir, ensureDir } from './fs.js';
+import { getClaudeSkillsDir, ensureDir } from './fs.js';
 import type { SkillMeta } from '../types.js';
 
 /**
@@ -55,26 +55,6 @@ export function writeIndex(skills: SkillMeta[]): void {
   fs.writeFileSync(indexPath, content, 'utf-8');
 }
 
-/**
- * Regenerate SKILLS_INDEX.md from installed skills
- */
-export function regenerateIndex(): void {
-  const slugs = listLocalSkills();
-  const skills: SkillMeta[] = [];
-
-  for (const slug of slugs) {
-    const meta = readSkillMeta(slug);
-    if (meta) {
-      skills.push(meta);
-    }
-  }
-
-  // Sort by slug
-  skills.sort((a, b) => a.slug.localeCompare(b.slug));
-
-  writeIndex(skills);
-}
-
 /**
  * Read the current index file from .claude/skills/
  */
@@ -0,0 +1,513 @@
+/**
+ * Rule-based linter for installed skills
+ *
+ * Each rule has a default level that can be overridden (or turned off) with
+ * `lint.rules` in .skills.yaml.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { splitFrontmatter } from './frontmatter.js';
+import { findPulledInLines } from './compose.js';
+import type { LintConfig, LintLevel, SkillMeta } from '../types.js';
+
+/**
+ * Compat values recognized without configuration
+ */
+export const KNOWN_COMPAT = ['claude', 'claude-code', 'cursor', 'codex', 'copilot', 'windsurf', 'gemini', 'gpt4'];
+
+/**
+ * Limits applied by agents when loading skill metadata
+ */
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+/**
+ * Default token budget for SKILL.md (estimated at ~4 characters per token)
+ */
+const DEFAULT_MAX_TOKENS = 5000;
+
+/**
+ * Directories whose files are treated as supporting-file references when
+ * mentioned in inline code (e.g. `scripts/setup.sh`)
+ */
+const SUPPORTING_FILE_DIRS = ['scripts', 'references', 'templates', 'assets', 'examples', 'resources'];
+
+/**
+ * A skill directory to lint
+ */
+export interface LintTarget {
+  slug: string;
+  dir: string; // Absolute path of the skill directory
+  content: string | null; // SKILL.md, or null if missing
+  meta: SkillMeta | null;
+}
+
+/**
+ * A problem found by a rule
+ */
+export interface LintIssue {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  file: string; // Relative to the skill directory
+  line?: number;
+}
+
+/**
+ * What a rule reports, before its level is applied
+ */
+interface Finding {
+  message: string;
+  line?: number;
+  file?: string; // Defaults to SKILL.md
+}
+
+/**
+ * SKILL.md split into the pieces rules look at
+ */
+interface ParsedSkill {
+  target: LintTarget;
+  content: string;
+  lines: string[];
+  frontmatter: Record<string, unknown> | null; // null if missing or invalid
+  frontmatterError: string | null;
+  bodyStartLine: number; // 1-based line where the body starts
+  proseLines: { line: number; text: string }[]; // Body lines outside fenced code blocks
+  pulledInLines: Set<number>; // Lines included from or extending another skill
+}
+
+/**
+ * A lint rule
+ */
+export interface LintRule {
+  id: string;
+  description: string;
+  level: Exclude<LintLevel, 'off'>; // Default level
+  needsContent: boolean; // Skipped when SKILL.md is missing or empty
+  check(skill: ParsedSkill, config: LintConfig): Finding[];
+}
+
+/**
+ * Find markdown links and images in prose lines
+ */
+function findLinks(skill: ParsedSkill): { target: string; line: number }[] {
+  const links: { target: string; line: number }[] = [];
+  const pattern = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+
+  for (const { line, text } of skill.proseLines) {
+    // Links in content pulled in from another skill are relative to that skill
+    if (skill.pulledInLines.has(line)) continue;
+    for (const match of stripInlineCode(text).matchAll(pattern)) {
+      links.push({ target: match[1], line });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Replace inline code spans with spaces so links inside them are ignored
+ */
+function stripInlineCode(text: string): string {
+  return text.replace(/`[^`]*`/g, (span) => ' '.repeat(span.length));
+}
+
+/**
+ * Check if a path exists inside the skill directory
+ */
+function existsInSkill(skill: ParsedSkill, relativePath: string): boolean {
+  const resolved = path.resolve(skill.target.dir, relativePath);
+  return fs.existsSync(resolved);
+}
+
+/**
+ * Find the line of a frontmatter key (the opening --- line if absent)
+ */
+function keyLine(skill: ParsedSkill, key: string): number {
+  const pattern = new RegExp(`^${key}\\s*:`);
+  const index = skill.lines.slice(1, skill.bodyStartLine - 2).findIndex((line) => pattern.test(line));
+  return index === -1 ? 1 : index + 2;
+}
+
+/**
+ * Read a string list (array or comma-separated) from frontmatter
+ */
+function readList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map((v) => v.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'skill-md',
+    description: 'SKILL.md must exist and not be empty',
+    level: 'error',
+    needsContent: false,
+    check: ({ content }) => (content.trim().length === 0 ? [{ message: 'SKILL.md is missing or empty' }] : []),
+  },
+  {
+    id: 'meta-yaml',
+    description: 'meta.yaml must exist and record the skill slug',
+    level: 'error',
+    needsContent: false,
+    check: ({ target }) => {
+      if (!target.meta) return [{ message: 'meta.yaml not found (run `skill sync`)', file: 'meta.yaml' }];
+      if (!target.meta.slug) return [{ message: 'meta.yaml missing slug', file: 'meta.yaml' }];
+      return [];
+    },
+  },
+  {
+    id: 'slug-format',
+    description: 'Slugs must be lowercase alphanumeric with hyphens',
+    level: 'error',
+    needsContent: false,
+    check: ({ target }) =>
+      /^[a-z0-9][a-z0-9-]*[a-z0-9]$|^[a-z0-9]$/.test(target.slug)
+        ? []
+        : [{ message: `Slug '${target.slug}' must be lowercase alphanumeric with hyphens` }],
+  },
+  {
+    id: 'frontmatter',
+    description: 'SKILL.md must start with a valid YAML frontmatter block',
+    level: 'error',
+    needsContent: true,
+    check: ({ frontmatter, frontmatterError }) =>
+      frontmatter ? [] : [{ message: frontmatterError || 'Missing frontmatter block', line: 1 }],
+  },
+  {
+    id: 'frontmatter-name',
+    description: 'Frontmatter must contain a name',
+    level: 'error',
+    needsContent: true,
+    check: ({ frontmatter }) =>
+      frontmatter && !(typeof frontmatter.name === 'string' && frontmatter.name.trim())
+        ? [{ message: 'Frontmatter is missing `name`', line: 1 }]
+        : [],
+  },
+  {
+    id: 'frontmatter-description',
+    description: 'Frontmatter must contain a description, which agents use to decide when to load the skill',
+    level: 'error',
+    needsContent: true,
+    check: ({ frontmatter }) =>
+      frontmatter && !(typeof frontmatter.description === 'string' && frontmatter.description.trim())
+        ? [{ message: 'Frontmatter is missing `description`', line: 1 }]
+        : [],
+  },
+  {
+    id: 'name-length',
+    description: `Names longer than ${MAX_NAME_LENGTH} characters are rejected by agents`,
+    level: 'error',
+    needsContent: true,
+    check: (skill) => {
+      const name = skill.frontmatter?.name;
+      return typeof name === 'string' && name.length > MAX_NAME_LENGTH
+        ? [{ message: `Name is ${name.length} characters (max ${MAX_NAME_LENGTH})`, line: keyLine(skill, 'name') }]
+        : [];
+    },
+  },
+  {
+    id: 'description-length',
+    description: `Descriptions longer than ${MAX_DESCRIPTION_LENGTH} characters are truncated or rejected by agents`,
+    level: 'error',
+    needsContent: true,
+    check: (skill) => {
+      const description = skill.frontmatter?.description;
+      return typeof description === 'string' && description.length > MAX_DESCRIPTION_LENGTH
+        ? [
+            {
+              message: `Description is ${description.length} characters (max ${MAX_DESCRIPTION_LENGTH})`,
+              line: keyLine(skill, 'description'),
+            },
+          ]
+        : [];
+    },
+  },
+  {
+    id: 'heading',
+    description: 'SKILL.md should have a # heading',
+    level: 'warn',
+    needsContent: true,
+    check: ({ proseLines }) =>
+      proseLines.some(({ text }) => /^#\s+.+/.test(text)) ? [] : [{ message: 'SKILL.md should have a # heading' }],
+  },
+  {
+    id: 'content-length',
+    description: 'SKILL.md should have enough instructions to be useful',
+    level: 'warn',
+    needsContent: true,
+    check: ({ content }) => (content.length < 100 ? [{ message: 'SKILL.md seems very short' }] : []),
+  },
+  {
+    id: 'skill-size',
+    description: `SKILL.md should stay under the token budget (lint.max_tokens, default ${DEFAULT_MAX_TOKENS})`,
+    level: 'warn',
+    needsContent: true,
+    check: ({ content }, config) => {
+      const maxTokens = config.max_tokens ?? DEFAULT_MAX_TOKENS;
+      const tokens = Math.ceil(content.length / 4);
+      return tokens > maxTokens
+        ? [{ message: `SKILL.md is ~${tokens} tokens (max ${maxTokens}); move details into supporting files` }]
+        : [];
+    },
+  },
+  {
+    id: 'broken-links',
+    description: 'Relative links must point to files in the skill directory',
+    level: 'error',
+    needsContent: true,
+    check: (skill) => {
+      const findings: Finding[] = [];
+      for (const { target, line } of findLinks(skill)) {
+        // Skip URLs (any scheme), in-page anchors and absolute paths
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#') || target.startsWith('/')) continue;
+
+        let relativePath = target.replace(/[#?].*$/, '');
+        try {
+          relativePath = decodeURI(relativePath);
+        } catch {
+          // Keep malformed escapes as written
+        }
+        if (relativePath && !existsInSkill(skill, relativePath)) {
+          findings.push({ message: `Broken link: ${target}`, line });
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'missing-files',
+    description: 'Supporting files mentioned in SKILL.md (e.g. `scripts/setup.sh`) must exist',
+    level: 'error',
+    needsContent: true,
+    check: (skill) => {
+      const findings: Finding[] = [];
+      const filePattern = /^(\.\/)?([\w.-]+\/)+[\w.-]+\.[A-Za-z0-9]+$/;
+
+      for (const { line, text } of skill.proseLines) {
+        if (skill.pulledInLines.has(line)) continue;
+        for (const match of text.matchAll(/`([^`\s]+)`/g)) {
+          const reference = match[1];
+          if (!filePattern.test(reference)) continue;
+
+          const firstDir = reference.replace(/^\.\//, '').split('/')[0];
+          const isSkillPath = reference.startsWith('./') || SUPPORTING_FILE_DIRS.includes(firstDir);
+          if (isSkillPath && !existsInSkill(skill, reference)) {
+            findings.push({ message: `Missing supporting file: ${reference}`, line });
+          }
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'duplicate-headings',
+    description: 'Headings at the same level should be unique',
+    level: 'warn',
+    needsContent: true,
+    check: ({ proseLines }) => {
+      const findings: Finding[] = [];
+      const seen = new Map<string, number>();
+
+      for (const { line, text } of proseLines) {
+        const match = text.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (!match) continue;
+
+        const key = `${match[1].length}:${match[2].toLowerCase()}`;
+        const first = seen.get(key);
+        if (first !== undefined) {
+          findings.push({ message: `Duplicate heading "${match[2]}" (first on line ${first})`, line });
+        } else {
+          seen.set(key, line);
+        }
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'known-tags',
+    description: 'Tags must come from lint.tags in .skills.yaml (skipped when unset)',
+    level: 'warn',
+    needsContent: true,
+    check: (skill, config) => {
+      if (!skill.frontmatter || !config.tags) return [];
+      const known = config.tags.map((t) => t.toLowerCase());
+      return readList(skill.frontmatter.tags)
+        .filter((tag) => !known.includes(tag.toLowerCase()))
+        .map((tag) => ({ message: `Unknown tag '${tag}'`, line: keyLine(skill, 'tags') }));
+    },
+  },
+  {
+    id: 'known-compat',
+    description: 'Compat values must be known agents (built-in list plus lint.compat in .skills.yaml)',
+    level: 'warn',
+    needsContent: true,
+    check: (skill, config) => {
+      if (!skill.frontmatter) return [];
+      const known = [...KNOWN_COMPAT, ...(config.compat || [])].map((c) => c.toLowerCase());
+      return readList(skill.frontmatter.compat)
+        .filter((value) => !known.includes(value.toLowerCase()))
+        .map((value) => ({ message: `Unknown compat value '${value}'`, line: keyLine(skill, 'compat') }));
+    },
+  },
+];
+
+/**
+ * Split SKILL.md into frontmatter and prose lines
+ */
+function parseSkill(target: LintTarget): ParsedSkill {
+  const content = target.content ?? '';
+  const lines = content.split('\n');
+
+  let frontmatter: Record<string, unknown> | null = null;
+  let frontmatterError: string | null = null;
+  let bodyStartLine = 1;
+
+  const block = splitFrontmatter(content);
+  if (block) {
+    bodyStartLine = block.yaml.split('\n').length + 3;
+    try {
+      const parsed = yaml.parse(block.yaml);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        frontmatter = parsed as Record<string, unknown>;
+      } else {
+        frontmatterError = 'Frontmatter must be a YAML mapping';
+      }
+    } catch (error) {
+      frontmatterError = `Invalid frontmatter: ${error instanceof Error ? error.message.split('\n')[0] : error}`;
+    }
+  }
+
+  // Body lines outside fenced code blocks
+  const proseLines: { line: number; text: string }[] = [];
+  let fence: string | null = null;
+  for (let i = bodyStartLine - 1; i < lines.length; i++) {
+    const text = lines[i];
+    const fenceMatch = text.match(/^\s*(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (!fence) {
+      proseLines.push({ line: i + 1, text });
+    }
+  }
+
+  const pulledInLines = findPulledInLines(content);
+
+  return { target, content, lines, frontmatter, frontmatterError, bodyStartLine, proseLines, pulledInLines };
+}
+
+/**
+ * Get a rule's effective level
+ */
+export function getRuleLevel(rule: LintRule, config: LintConfig): LintLevel {
+  return config.rules?.[rule.id] ?? rule.level;
+}
+
+/**
+ * Check the lint config for unknown rules and invalid levels
+ *
+ * @returns Problems, as human-readable messages
+ */
+export function checkLintConfig(config: LintConfig): string[] {
+  const problems: string[] = [];
+  const levels: LintLevel[] = ['error', 'warn', 'off'];
+
+  for (const [id, level] of Object.entries(config.rules || {})) {
+    if (!LINT_RULES.some((rule) => rule.id === id)) {
+      problems.push(`Unknown lint rule '${id}'`);
+    } else if (!levels.includes(level)) {
+      problems.push(`Invalid level '${level}' for lint rule '${id}' (use ${levels.join(', ')})`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Lint an installed skill
+ */
+export function lintSkill(target: LintTarget, config: LintConfig = {}): LintIssue[] {
+  const skill = parseSkill(target);
+  const hasContent = skill.content.trim().length > 0;
+  const issues: LintIssue[] = [];
+
+  for (const rule of LINT_RULES) {
+    const level = getRuleLevel(rule, config);
+    if (level === 'off' || (rule.needsContent && !hasContent)) continue;
+
+    for (const finding of rule.check(skill, config)) {
+      issues.push({
+        rule: rule.id,
+        severity: level === 'error' ? 'error' : 'warning',
+        message: finding.message,
+        file: finding.file ?? 'SKILL.md',
+        ...(finding.line !== undefined ? { line: finding.line } : {}),
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Lint results for one skill, located relative to the project root
+ */
+export interface LintResult {
+  slug: string;
+  path: string; // Skill directory, relative to the project root
+  issues: LintIssue[];
+}
+
+/**
+ * Convert lint results to a SARIF 2.1.0 log
+ */
+export function toSarif(results: LintResult[], tool: { name: string; version: string }): object {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: tool.name,
+            version: tool.version,
+            rules: LINT_RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.level === 'error' ? 'error' : 'warning' },
+            })),
+          },
+        },
+        results: results.flatMap((result) =>
+          result.issues.map((issue) => ({
+            ruleId: issue.rule,
+            ruleIndex: LINT_RULES.findIndex((rule) => rule.id === issue.rule),
+            level: issue.severity,
+            message: { text: issue.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: `${result.path}/${issue.file}`.split(path.sep).join('/') },
+                  ...(issue.line !== undefined ? { region: { startLine: issue.line } } : {}),
+                },
+              },
+            ],
+          }))
+        ),
+      },
+    ],
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Reachability and garbage collection for the content-addressed object store
+ *
+ * Objects are shared between skills and revisions, so they are never removed
+ * when a skill is saved or deleted. Instead, gc computes the set of objects
+ * still referenced and removes everything else.
+ */
+
+import { listObjects, deleteObject, getObjectSize, cleanupTempFiles } from './objects.js';
+import { listSkills, getSkillHistory } from './skills.js';
+
+/**
+ * Result of a garbage collection run
+ */
+export interface GcResult {
+  removed: string[]; // Unreferenced object hashes (removed, or to be removed in a dry run)
+  bytes: number; // Total size of removed objects
+  kept: number; // Number of referenced objects
+  tempFiles: number; // Stale temp files cleaned up
+}
+
+/**
+ * A skill revision that references an object
+ */
+export interface ObjectReference {
+  slug: string;
+  revision?: number; // History revision number, if referenced from history
+  current: boolean; // Whether this is the skill's current content
+  path?: string; // Supporting file path, if not SKILL.md
+}
+
+/**
+ * Map every object hash referenced by the local registry to the skills using it:
+ * the current content of each skill and every revision in its history,
+ * including their supporting files.
+ */
+export function collectObjectReferences(): Map<string, ObjectReference[]> {
+  const references = new Map<string, ObjectReference[]>();
+
+  const add = (sha256: string, reference: ObjectReference) => {
+    const existing = references.get(sha256) || [];
+    existing.push(reference);
+    references.set(sha256, existing);
+  };
+
+  for (const skill of listSkills()) {
+    if (skill.meta.sha256) {
+      add(skill.meta.sha256, { slug: skill.slug, current: true });
+    }
+    for (const [path, sha256] of Object.entries(skill.meta.files || {})) {
+      add(sha256, { slug: skill.slug, current: true, path });
+    }
+    getSkillHistory(skill.slug).forEach((entry, index) => {
+      const revision = index + 1;
+      add(entry.sha256, { slug: skill.slug, revision, current: false });
+      for (const [path, sha256] of Object.entries(entry.files || {})) {
+        add(sha256, { slug: skill.slug, revision, current: false, path });
+      }
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Collect every object hash referenced by the local registry
+ */
+export function collectReachableObjects(): Set<string> {
+  return new Set(collectObjectReferences().keys());
+}
+
+/**
+ * Remove objects that nothing references, plus stale temp files.
+ *
+ * @param options.extraRefs Additional hashes to keep (e.g. from project lockfiles)
+ * @param options.dryRun Report what would be removed without deleting anything
+ */
+export function collectGarbage(
+  options: { extraRefs?: Iterable<string>; dryRun?: boolean } = {}
+): GcResult {
+  const reachable = collectReachableObjects();
+  for (const sha256 of options.extraRefs || []) {
+    reachable.add(sha256);
+  }
+
+  const result: GcResult = { removed: [], bytes: 0, kept: 0, tempFiles: 0 };
+
+  for (const sha256 of listObjects()) {
+    if (reachable.has(sha256)) {
+      result.kept++;
+      continue;
+    }
+
+    result.bytes += getObjectSize(sha256);
+    result.removed.push(sha256);
+
+    if (!options.dryRun) {
+      deleteObject(sha256);
+    }
+  }
+
+  result.tempFiles = cleanupTempFiles({ dryRun: options.dryRun });
+
+  return result;
+}
@@ -5,6 +5,8 @@
  * - Deduplication via SHA256 hashing
  * - Integrity verification on read
  * - Atomic writes to prevent corruption
+ * - Revision history for resolving versions
+ * - Skill packs (named sets of skills)
  */
 
 // Re-export types
@@ -14,6 +16,8 @@ export type {
   GetSkillResult,
   SkillSummary,
   SearchResult,
+  SkillHistoryEntry,
+  SkillVersion,
 } from './types.js';
 
 // Re-export path utilities
@@ -24,6 +28,10 @@ export {
   getSkillsDir,
   getSkillDir,
   getMetaPath,
+  getHistoryPath,
+  getSkillFilesDir,
+  getPacksDir,
+  getPackPath,
   getSkillFilePath as getSkillFilePathFromPaths,
   ensureDir,
   ensureRegistryStructure,
@@ -37,11 +45,13 @@ export {
   computeHash,
   writeObject,
   readObject,
+  readObjectBuffer,
   objectExists,
   deleteObject,
   listObjects,
   verifyAllObjects,
   cleanupTempFiles,
+  getObjectSize,
 } from './objects.js';
 
 // Re-export skill operations (main API)
@@ -50,6 +60,7 @@ export {
   writeMeta,
   putSkill,
   getSkill,
+  readSkillFiles,
   getSkillFilePath,
   skillExists,
   listSkills,
@@ -58,4 +69,17 @@ export {
   searchByCompat,
   deleteSkill,
   getSkillInfo,
+  getSkillHistory,
+  findRevision,
+  listSkillVersions,
 } from './skills.js';
+
+// Re-export pack operations
+export { packExists, getPack, putPack, listPacks, deletePack } from './packs.js';
+
+// Re-export history operations
+export { readHistory, appendHistory, versionsFromHistory } from './versions.js';
+
+// Re-export reachability and garbage collection
+export type { GcResult, ObjectReference } from './gc.js';
+export { collectObjectReferences, collectReachableObjects, collectGarbage } from './gc.js';
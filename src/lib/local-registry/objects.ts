@@ -13,10 +13,10 @@ import * as crypto from 'crypto';
 import { getObjectsDir, getObjectPath, ensureDir } from './paths.js';
 
 /**
- * Compute SHA256 hash of content
+ * Compute SHA256 hash of content (strings are hashed as UTF-8)
  */
-export function computeHash(content: string): string {
-  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+export function computeHash(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
 }
 
 /**
@@ -25,7 +25,7 @@ export function computeHash(content: string): string {
  *
  * @returns The SHA256 hash of the content
  */
-export function writeObject(content: string): string {
+export function writeObject(content: string | Buffer): string {
   const sha256 = computeHash(content);
   const objectPath = getObjectPath(sha256);
 
@@ -40,7 +40,7 @@ export function writeObject(content: string): string {
   // Atomic write: write to temp file, then rename
   const tempPath = `${objectPath}.tmp.${process.pid}.${Date.now()}`;
   try {
-    fs.writeFileSync(tempPath, content, 'utf-8');
+    fs.writeFileSync(tempPath, content);
     fs.renameSync(tempPath, objectPath);
   } catch (error) {
     // Clean up temp file on error
@@ -64,20 +64,31 @@ export function writeObject(content: string): string {
  * @returns The content, or null if object doesn't exist or is corrupted
  */
 export function readObject(sha256: string): string | null {
+  const content = readObjectBuffer(sha256);
+  return content === null ? null : content.toString('utf-8');
+}
+
+/**
+ * Read raw bytes from the object store (for binary supporting files).
+ * Verifies integrity by checking the hash matches the filename.
+ *
+ * @returns The content, or null if object doesn't exist or is corrupted
+ */
+export function readObjectBuffer(sha256: string): Buffer | null {
   const objectPath = getObjectPath(sha256);
 
   if (!fs.existsSync(objectPath)) {
     return null;
   }
 
-  const content = fs.readFileSync(objectPath, 'utf-8');
+  const content = fs.readFileSync(objectPath);
 
   // Verify integrity
   const actualHash = computeHash(content);
   if (actualHash !== sha256) {
     console.error(
       `Cache integrity error: object ${sha256} corrupted (actual hash: ${actualHash}). ` +
-        `Run 'skills cache verify' for details.`
+        `Run 'skill cache verify' for details.`
     );
     return null;
   }
@@ -134,7 +145,7 @@ export function verifyAllObjects(): string[] {
 
   for (const sha256 of listObjects()) {
     const objectPath = getObjectPath(sha256);
-    const content = fs.readFileSync(objectPath, 'utf-8');
+    const content = fs.readFileSync(objectPath);
     const actualHash = computeHash(content);
 
     if (actualHash !== sha256) {
@@ -146,9 +157,11 @@ export function verifyAllObjects(): string[] {
 }
 
 /**
- * Clean up orphaned temp files
+ * Clean up orphaned temp files older than an hour
+ *
+ * @returns The number of temp files removed (or that would be removed with dryRun)
  */
-export function cleanupTempFiles(): number {
+export function cleanupTempFiles(options: { dryRun?: boolean } = {}): number {
   const objectsDir = getObjectsDir();
 
   if (!fs.existsSync(objectsDir)) {
@@ -165,7 +178,9 @@ export function cleanupTempFiles(): number {
       const stats = fs.statSync(filePath);
       const age = Date.now() - stats.mtimeMs;
       if (age > 60 * 60 * 1000) {
-        fs.unlinkSync(filePath);
+        if (!options.dryRun) {
+          fs.unlinkSync(filePath);
+        }
         cleaned++;
       }
     }
@@ -173,3 +188,14 @@ export function cleanupTempFiles(): number {
 
   return cleaned;
 }
+
+/**
+ * Get the size of an object in bytes
+ */
+export function getObjectSize(sha256: string): number {
+  try {
+    return fs.statSync(getObjectPath(sha256)).size;
+  } catch {
+    return 0;
+  }
+}
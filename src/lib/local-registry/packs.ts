@@ -0,0 +1,92 @@
+/**
+ * Skill pack operations for the local registry
+ *
+ * Each pack is a YAML file in packs/ listing its skills, e.g.
+ * packs/web-app.yaml → { name, description, skills: [{ slug, version }] }
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'yaml';
+import { getPacksDir, getPackPath, ensureDir } from './paths.js';
+import type { SkillPack, PackSkill } from '../../types.js';
+
+/**
+ * Check if a pack exists in the registry
+ */
+export function packExists(name: string): boolean {
+  return fs.existsSync(getPackPath(name));
+}
+
+/**
+ * Read a pack from the registry
+ *
+ * @returns The pack, or null if not found
+ */
+export function getPack(name: string): SkillPack | null {
+  const packPath = getPackPath(name);
+  if (!fs.existsSync(packPath)) {
+    return null;
+  }
+
+  const parsed = (yaml.parse(fs.readFileSync(packPath, 'utf-8')) || {}) as Partial<SkillPack>;
+  return {
+    name,
+    ...(parsed.description ? { description: parsed.description } : {}),
+    skills: (parsed.skills || []).filter((s): s is PackSkill => !!s?.slug),
+  };
+}
+
+/**
+ * Write a pack to the registry (atomic)
+ */
+export function putPack(pack: SkillPack): void {
+  const packPath = getPackPath(pack.name);
+  ensureDir(getPacksDir());
+
+  const content = yaml.stringify(pack, { lineWidth: 0 });
+
+  const tempPath = `${packPath}.tmp.${process.pid}.${Date.now()}`;
+  try {
+    fs.writeFileSync(tempPath, content, 'utf-8');
+    fs.renameSync(tempPath, packPath);
+  } catch (error) {
+    try {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw error;
+  }
+}
+
+/**
+ * List all packs in the registry, sorted by name
+ */
+export function listPacks(): SkillPack[] {
+  const packsDir = getPacksDir();
+  if (!fs.existsSync(packsDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(packsDir)
+    .filter((file) => file.endsWith('.yaml'))
+    .map((file) => getPack(file.slice(0, -'.yaml'.length)))
+    .filter((pack): pack is SkillPack => pack !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Delete a pack from the registry
+ */
+export function deletePack(name: string): boolean {
+  const packPath = getPackPath(name);
+  if (!fs.existsSync(packPath)) {
+    return false;
+  }
+
+  fs.unlinkSync(packPath);
+  return true;
+}
@@ -44,6 +44,20 @@ export function getSkillDir(slug: string): string {
   return path.join(getSkillsDir(), slug);
 }
 
+/**
+ * Get the packs directory
+ */
+export function getPacksDir(): string {
+  return path.join(getRoot(), 'packs');
+}
+
+/**
+ * Get the path to a pack's definition
+ */
+export function getPackPath(name: string): string {
+  return path.join(getPacksDir(), `${name}.yaml`);
+}
+
 /**
  * Get the path to a skill's meta.yaml
  */
@@ -58,6 +72,20 @@ export function getSkillFilePath(slug: string): string {
   return path.join(getSkillDir(slug), 'SKILL.md');
 }
 
+/**
+ * Get the directory holding readable working copies of a skill's supporting files
+ */
+export function getSkillFilesDir(slug: string): string {
+  return path.join(getSkillDir(slug), 'files');
+}
+
+/**
+ * Get the path to a skill's history.yaml (one entry per saved revision)
+ */
+export function getHistoryPath(slug: string): string {
+  return path.join(getSkillDir(slug), 'history.yaml');
+}
+
 /**
  * Ensure a directory exists, creating it recursively if needed
  */
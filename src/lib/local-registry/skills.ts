@@ -3,23 +3,31 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as yaml from 'yaml';
 import {
   getSkillDir,
   getSkillsDir,
   getMetaPath,
   getSkillFilePath,
+  getSkillFilesDir,
   ensureDir,
   skillExists as pathSkillExists,
   ensureRegistryStructure,
 } from './paths.js';
-import { writeObject, readObject } from './objects.js';
+import { writeObject, readObject, readObjectBuffer } from './objects.js';
+import { readHistory, appendHistory, versionsFromHistory } from './versions.js';
+import { extractVersionComment } from '../semver.js';
+import { collectSkillFiles, writeSkillFiles } from '../skill-files.js';
+import type { SkillFiles, SkillFileManifest } from '../skill-files.js';
 import type {
   LocalSkillMeta,
   PutSkillParams,
   GetSkillResult,
   SkillSummary,
   SearchResult,
+  SkillHistoryEntry,
+  SkillVersion,
 } from './types.js';
 
 /**
@@ -91,20 +99,85 @@ function writeSkillFile(slug: string, content: string): void {
   fs.writeFileSync(skillFilePath, content, 'utf-8');
 }
 
+/**
+ * Replace the readable working copies of a skill's supporting files
+ */
+function writeSkillFilesCopy(slug: string, files: SkillFiles): void {
+  const filesDir = getSkillFilesDir(slug);
+  if (fs.existsSync(filesDir)) {
+    fs.rmSync(filesDir, { recursive: true });
+  }
+  if (Object.keys(files).length > 0) {
+    ensureDir(filesDir);
+    writeSkillFiles(filesDir, files);
+  }
+}
+
+/**
+ * Read supporting files from the object store by manifest
+ *
+ * @returns The files, or null if any object is missing or corrupted
+ */
+export function readSkillFiles(manifest: SkillFileManifest = {}): SkillFiles | null {
+  const files: SkillFiles = {};
+
+  for (const [relativePath, sha256] of Object.entries(manifest)) {
+    const content = readObjectBuffer(sha256);
+    if (content === null) {
+      return null;
+    }
+    files[relativePath] = content;
+  }
+
+  return files;
+}
+
+/**
+ * Get the author recorded in history entries when none is given
+ */
+function getDefaultAuthor(): string | undefined {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Put a skill into the registry (create or update)
  *
  * @returns The sha256 hash of the content
  */
 export function putSkill(params: PutSkillParams): { sha256: string } {
-  const { slug, content, meta } = params;
+  const { slug, content, meta, message } = params;
+  const author = params.author || getDefaultAuthor();
 
   // Ensure registry structure exists
   ensureRegistryStructure();
 
+  // Seed history with the current revision for skills saved before history was recorded
+  if (readHistory(slug).length === 0) {
+    for (const entry of getSkillHistory(slug)) {
+      appendHistory(slug, entry);
+    }
+  }
+
   // Write content to object store
   const sha256 = writeObject(content);
 
+  // Write supporting files, or keep the current ones when none are given
+  let files: SkillFileManifest | undefined = readMeta(slug)?.files;
+  if (params.files) {
+    files = {};
+    for (const relativePath of Object.keys(params.files).sort()) {
+      files[relativePath] = writeObject(params.files[relativePath]);
+    }
+    writeSkillFilesCopy(slug, params.files);
+  }
+  if (files && Object.keys(files).length === 0) {
+    files = undefined;
+  }
+
   // Create or update meta.yaml
   const fullMeta: LocalSkillMeta = {
     slug,
@@ -113,6 +186,7 @@ export function putSkill(params: PutSkillParams): { sha256: string } {
     tags: meta.tags || [],
     compat: meta.compat || [],
     sha256,
+    ...(files ? { files } : {}),
     updatedAt: new Date().toISOString(),
   };
   writeMeta(slug, fullMeta);
@@ -120,6 +194,17 @@ export function putSkill(params: PutSkillParams): { sha256: string } {
   // Write readable SKILL.md working copy
   writeSkillFile(slug, content);
 
+  // Record the revision in history.yaml
+  const version = extractVersionComment(content);
+  appendHistory(slug, {
+    sha256,
+    ...(files ? { files } : {}),
+    ...(version ? { version } : {}),
+    createdAt: fullMeta.updatedAt,
+    ...(message ? { message } : {}),
+    ...(author ? { author } : {}),
+  });
+
   return { sha256 };
 }
 
@@ -134,6 +219,9 @@ export function getSkill(slug: string): GetSkillResult | null {
     return null;
   }
 
+  // Fall back to the working copies if any supporting file object is unreadable
+  const files = readSkillFiles(meta.files) ?? collectSkillFiles(getSkillFilesDir(slug));
+
   const content = readObject(meta.sha256);
   if (!content) {
     // Object is missing or corrupted, try the SKILL.md working copy
@@ -142,6 +230,7 @@ export function getSkill(slug: string): GetSkillResult | null {
       const fallbackContent = fs.readFileSync(skillFilePath, 'utf-8');
       return {
         content: fallbackContent,
+        files,
         meta,
         sha256: meta.sha256,
       };
@@ -151,11 +240,83 @@ export function getSkill(slug: string): GetSkillResult | null {
 
   return {
     content,
+    files,
     meta,
     sha256: meta.sha256,
   };
 }
 
+/**
+ * Get a skill's revision history (oldest first).
+ * Skills saved before history was recorded report their current revision.
+ */
+export function getSkillHistory(slug: string): SkillHistoryEntry[] {
+  const entries = readHistory(slug);
+  if (entries.length > 0) {
+    return entries;
+  }
+
+  const meta = readMeta(slug);
+  if (!meta?.sha256) {
+    return [];
+  }
+
+  const content = readObject(meta.sha256);
+  const version = content ? extractVersionComment(content) : null;
+  return [
+    {
+      sha256: meta.sha256,
+      ...(meta.files ? { files: meta.files } : {}),
+      ...(version ? { version } : {}),
+      createdAt: meta.updatedAt,
+    },
+  ];
+}
+
+/**
+ * Find a revision in a skill's history by 1-based revision number or sha256 prefix
+ *
+ * @returns The revision number and entry, or null if not found
+ * @throws If a sha256 prefix matches more than one revision's content
+ */
+export function findRevision(
+  slug: string,
+  ref: string
+): { revision: number; entry: SkillHistoryEntry } | null {
+  const entries = getSkillHistory(slug);
+
+  if (/^\d+$/.test(ref) && ref.length < 7) {
+    const revision = parseInt(ref, 10);
+    const entry = entries[revision - 1];
+    return entry ? { revision, entry } : null;
+  }
+
+  const prefix = ref.toLowerCase();
+  const matches = new Set(
+    entries.filter((e) => e.sha256.startsWith(prefix)).map((e) => e.sha256)
+  );
+
+  if (matches.size > 1) {
+    throw new Error(`Ambiguous revision '${ref}' matches ${matches.size} different revisions`);
+  }
+
+  // Prefer the most recent revision with this content
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].sha256.startsWith(prefix)) {
+      return { revision: i + 1, entry: entries[i] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the versions of a skill available in the local registry (newest first)
+ */
+export function listSkillVersions(slug: string): SkillVersion[] {
+  return versionsFromHistory(getSkillHistory(slug));
+}
+
 /**
  * Check if a skill exists in the registry
  */
@@ -265,7 +426,8 @@ export function searchByCompat(compat: string[]): SkillSummary[] {
 
 /**
  * Delete a skill entirely from the registry
- * Note: This does not delete the objects (they may be shared)
+ * Note: This does not delete the objects (they may be shared).
+ * Unreferenced objects are removed by `skill cache gc`.
  */
 export function deleteSkill(slug: string): boolean {
   const skillDir = getSkillDir(slug);
@@ -2,6 +2,8 @@
  * Types for the local registry module
  */
 
+import type { SkillFiles, SkillFileManifest } from '../skill-files.js';
+
 /**
  * Skill metadata stored in meta.yaml
  */
@@ -11,7 +13,8 @@ export interface LocalSkillMeta {
   description?: string;
   tags: string[];
   compat: string[];
-  sha256: string;
+  sha256: string; // Hash of SKILL.md
+  files?: SkillFileManifest; // Supporting files (path → sha256), omitted when there are none
   updatedAt: string; // ISO timestamp
 }
 
@@ -21,7 +24,10 @@ export interface LocalSkillMeta {
 export interface PutSkillParams {
   slug: string;
   content: string;
-  meta: Omit<LocalSkillMeta, 'slug' | 'updatedAt' | 'sha256'>;
+  files?: SkillFiles; // Supporting files; keeps the current files when omitted
+  meta: Omit<LocalSkillMeta, 'slug' | 'updatedAt' | 'sha256' | 'files'>;
+  message?: string; // Recorded in history.yaml
+  author?: string; // Defaults to the current OS user
 }
 
 /**
@@ -29,6 +35,7 @@ export interface PutSkillParams {
  */
 export interface GetSkillResult {
   content: string;
+  files: SkillFiles;
   meta: LocalSkillMeta;
   sha256: string;
 }
@@ -49,3 +56,25 @@ export interface SearchResult {
   meta: LocalSkillMeta;
   matchedOn: 'slug' | 'name' | 'tags' | 'description';
 }
+
+/**
+ * A saved revision of a skill, recorded in history.yaml
+ */
+export interface SkillHistoryEntry {
+  sha256: string;
+  files?: SkillFileManifest;
+  version?: string; // From the `<!-- version: x.y.z -->` marker, if present
+  createdAt: string; // ISO timestamp
+  message?: string;
+  author?: string;
+}
+
+/**
+ * A version of a skill available in the local registry
+ */
+export interface SkillVersion {
+  version: string;
+  sha256: string;
+  files?: SkillFileManifest;
+  createdAt: string;
+}
@@ -1,8 +1,96 @@
 /**
- * Legacy versions module - no longer used.
- * Version tracking has been removed. Skills now store a single
- * version of content identified by sha256 hash in meta.yaml.
+ * Revision history for skills in the local registry
  *
- * This file is kept as a placeholder. The old versions.yaml files
- * in the registry are read for migration purposes in skills.ts.
+ * Every save appends an entry to the skill's history.yaml. Since objects are
+ * content-addressed and never rewritten, each entry's sha256 can be read back
+ * from the object store to recover that revision.
+ *
+ * Note: this is unrelated to the legacy v1 versions.yaml files, which are
+ * only read for migration purposes in skills.ts.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'yaml';
+import { getHistoryPath, getSkillDir, ensureDir } from './paths.js';
+import { sortVersionsDesc } from '../semver.js';
+import { sameManifest } from '../skill-files.js';
+import type { SkillHistoryEntry, SkillVersion } from './types.js';
+
+/**
+ * Read a skill's history (oldest first)
+ */
+export function readHistory(slug: string): SkillHistoryEntry[] {
+  const historyPath = getHistoryPath(slug);
+
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const content = fs.readFileSync(historyPath, 'utf-8');
+  const parsed = yaml.parse(content) as { entries?: SkillHistoryEntry[] } | null;
+  return parsed?.entries || [];
+}
+
+/**
+ * Write a skill's history (atomic)
+ */
+function writeHistory(slug: string, entries: SkillHistoryEntry[]): void {
+  const historyPath = getHistoryPath(slug);
+  ensureDir(getSkillDir(slug));
+
+  const content = yaml.stringify({ entries }, { lineWidth: 0 });
+
+  const tempPath = `${historyPath}.tmp.${process.pid}.${Date.now()}`;
+  try {
+    fs.writeFileSync(tempPath, content, 'utf-8');
+    fs.renameSync(tempPath, historyPath);
+  } catch (error) {
+    try {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append an entry to a skill's history.
+ * Skipped if the content and supporting files are identical to the latest entry.
+ *
+ * @returns true if an entry was appended
+ */
+export function appendHistory(slug: string, entry: SkillHistoryEntry): boolean {
+  const entries = readHistory(slug);
+  const latest = entries[entries.length - 1];
+
+  if (latest && latest.sha256 === entry.sha256 && sameManifest(latest.files, entry.files)) {
+    return false;
+  }
+
+  entries.push(entry);
+  writeHistory(slug, entries);
+  return true;
+}
+
+/**
+ * Collect the versions declared in a history, newest version first.
+ * If several revisions declare the same version, the most recent one wins.
  */
+export function versionsFromHistory(entries: SkillHistoryEntry[]): SkillVersion[] {
+  const byVersion = new Map<string, SkillVersion>();
+
+  for (const entry of entries) {
+    if (!entry.version) continue;
+    byVersion.set(entry.version, {
+      version: entry.version,
+      sha256: entry.sha256,
+      ...(entry.files ? { files: entry.files } : {}),
+      createdAt: entry.createdAt,
+    });
+  }
+
+  return sortVersionsDesc([...byVersion.keys()]).map((version) => byVersion.get(version)!);
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { findProjectRoot } from './config.js';
+import { sameManifest } from './skill-files.js';
+import type { SkillsLock, LockedSkill } from '../types.js';
+
+const LOCKFILE_VERSION = 1;
+
+const LOCKFILE_HEADER =
+  '# This file is generated by `skill sync`. Do not edit manually.\n' +
+  '# Commit it so everyone syncing this project installs the same skill content.\n';
+
+/**
+ * A difference between the lockfile and the content a sync would install
+ */
+export interface LockMismatch {
+  slug: string;
+  reason: string;
+}
+
+/**
+ * Get the path to .skills.lock (next to .skills.yaml)
+ */
+export function getLockfilePath(): string {
+  const projectRoot = findProjectRoot() || process.cwd();
+  return path.join(projectRoot, '.skills.lock');
+}
+
+/**
+ * Check if a lockfile exists
+ */
+export function lockfileExists(): boolean {
+  return fs.existsSync(getLockfilePath());
+}
+
+/**
+ * Read .skills.lock
+ *
+ * @returns The lockfile, or null if it doesn't exist
+ */
+export function readLockfile(): SkillsLock | null {
+  const lockfilePath = getLockfilePath();
+
+  if (!fs.existsSync(lockfilePath)) {
+    return null;
+  }
+
+  const content = fs.readFileSync(lockfilePath, 'utf-8');
+  const parsed = (yaml.parse(content) || {}) as Partial<SkillsLock>;
+
+  return {
+    lockfile_version: parsed.lockfile_version || LOCKFILE_VERSION,
+    skills: (parsed.skills || []).filter((s): s is LockedSkill => !!s?.slug && !!s?.sha256),
+  };
+}
+
+/**
+ * Write .skills.lock (skills sorted by slug for stable diffs)
+ */
+export function writeLockfile(skills: LockedSkill[]): void {
+  const lock: SkillsLock = {
+    lockfile_version: LOCKFILE_VERSION,
+    skills: [...skills].sort((a, b) => a.slug.localeCompare(b.slug)),
+  };
+
+  const content = yaml.stringify(lock, { lineWidth: 0 });
+  fs.writeFileSync(getLockfilePath(), LOCKFILE_HEADER + content, 'utf-8');
+}
+
+/**
+ * Find a locked skill by slug
+ */
+export function findLockedSkill(lock: SkillsLock, slug: string): LockedSkill | undefined {
+  return lock.skills.find((s) => s.slug === slug);
+}
+
+/**
+ * Remove a skill from the lockfile, if present
+ */
+export function removeLockedSkill(slug: string): boolean {
+  const lock = readLockfile();
+  if (!lock) {
+    return false;
+  }
+
+  const remaining = lock.skills.filter((s) => s.slug !== slug);
+  if (remaining.length === lock.skills.length) {
+    return false;
+  }
+
+  writeLockfile(remaining);
+  return true;
+}
+
+/**
+ * Add or replace a single skill's lock entry, keeping the others
+ */
+export function updateLockedSkill(skill: LockedSkill): void {
+  const lock = readLockfile();
+  const others = (lock?.skills || []).filter((s) => s.slug !== skill.slug);
+  writeLockfile([...others, skill]);
+}
+
+/**
+ * Compare the lockfile against the skills a sync would install.
+ * Any difference means the lock is out of date.
+ */
+export function compareWithLock(
+  lock: SkillsLock,
+  slugs: string[],
+  resolved: LockedSkill[]
+): LockMismatch[] {
+  const mismatches: LockMismatch[] = [];
+
+  for (const slug of slugs) {
+    const locked = findLockedSkill(lock, slug);
+    if (!locked) {
+      mismatches.push({ slug, reason: 'not in .skills.lock' });
+      continue;
+    }
+
+    const current = resolved.find((s) => s.slug === slug);
+    if (!current) {
+      continue;
+    }
+
+    if (locked.source && locked.source !== current.source) {
+      mismatches.push({
+        slug,
+        reason: `source changed (locked ${locked.source}, configured ${current.source})`,
+      });
+    } else if (locked.sha256 !== current.sha256) {
+      const includes = { ...locked.includes, ...current.includes };
+      const changedIncludes = Object.keys(includes).filter(
+        (included) => locked.includes?.[included] !== current.includes?.[included]
+      );
+      mismatches.push({
+        slug,
+        reason:
+          changedIncludes.length > 0
+            ? `included skill changed (${changedIncludes.join(', ')})`
+            : locked.override !== current.override
+              ? 'project override changed'
+              : `registry content changed (locked ${locked.sha256.slice(0, 12)}…, registry ${current.sha256.slice(0, 12)}…)`,
+      });
+    } else if (!sameManifest(locked.files, current.files)) {
+      mismatches.push({ slug, reason: 'supporting files changed' });
+    }
+  }
+
+  for (const locked of lock.skills) {
+    if (!slugs.includes(locked.slug)) {
+      mismatches.push({ slug: locked.slug, reason: 'locked but no longer in .skills.yaml' });
+    }
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,74 @@
+/**
+ * Markdown section helpers
+ *
+ * A section is a heading and everything up to the next heading of the same or
+ * a higher level. Headings inside fenced code blocks are ignored, and heading
+ * text is matched case-insensitively.
+ */
+
+/**
+ * A heading line in markdown
+ */
+export interface MarkdownHeading {
+  line: number; // Line index
+  level: number; // 1 for `#`, 2 for `##`, ...
+  text: string;
+}
+
+/**
+ * A section's place in the lines of a document: lines[start, end)
+ */
+export interface SectionRange {
+  start: number;
+  end: number;
+  level: number;
+}
+
+/**
+ * List the headings of markdown lines, skipping fenced code blocks
+ */
+export function findHeadings(lines: string[]): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+    if (inFence) continue;
+
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (match) {
+      headings.push({ line: i, level: match[1].length, text: match[2] });
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Find a section by its heading text
+ *
+ * @returns The lines it spans, or null if no heading matches
+ */
+export function findSection(lines: string[], heading: string): SectionRange | null {
+  const wanted = heading.trim().toLowerCase();
+  const headings = findHeadings(lines);
+  const index = headings.findIndex((h) => h.text.toLowerCase() === wanted);
+  if (index === -1) {
+    return null;
+  }
+
+  const { line: start, level } = headings[index];
+  const next = headings.slice(index + 1).find((h) => h.level <= level);
+  return { start, end: next ? next.line : lines.length, level };
+}
+
+/**
+ * Extract one section of markdown, trimmed
+ *
+ * @returns The section, or null if no heading matches
+ */
+export function extractSection(markdown: string, heading: string): string | null {
+  const lines = markdown.split('\n');
+  const range = findSection(lines, heading);
+  return range ? lines.slice(range.start, range.end).join('\n').trim() : null;
+}
@@ -0,0 +1,266 @@
+/**
+ * Line-level three-way merge of skill content
+ *
+ * Changes made on each side relative to a common base are applied together;
+ * changes that overlap are written as conflict markers, or resolved in favor
+ * of one side when a strategy is given.
+ */
+
+import { diffLineArrays } from './diff.js';
+import { isBinary } from './skill-files.js';
+import type { SkillFiles } from './skill-files.js';
+
+/**
+ * How to resolve overlapping changes
+ */
+export type MergeStrategy = 'ours' | 'theirs';
+
+/**
+ * Result of merging one text
+ */
+export interface MergeResult {
+  content: string;
+  conflicts: number; // Number of conflicting regions (written as markers unless a strategy was given)
+}
+
+/**
+ * A skill's content and supporting files
+ */
+export interface SkillTree {
+  content: string;
+  files: SkillFiles;
+}
+
+/**
+ * Result of merging a whole skill
+ */
+export interface SkillMergeResult extends SkillTree {
+  conflicts: string[]; // Paths with unresolved conflicts ('SKILL.md' for the main file)
+}
+
+/**
+ * A replacement of base[start, end) with new lines, made by one side
+ */
+interface Chunk {
+  start: number;
+  end: number;
+  lines: string[];
+  side: 'ours' | 'theirs';
+}
+
+/**
+ * Convert a diff from base to one side into the chunks that side changed
+ */
+function changedChunks(base: string[], other: string[], side: Chunk['side']): Chunk[] {
+  const chunks: Chunk[] = [];
+  let baseIndex = 0;
+  let current: Chunk | null = null;
+
+  for (const line of diffLineArrays(base, other)) {
+    if (line.type === 'context') {
+      if (current) {
+        chunks.push(current);
+        current = null;
+      }
+      baseIndex++;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, lines: [], side };
+    }
+
+    if (line.type === 'removed') {
+      baseIndex++;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Apply one side's chunks to base[start, end)
+ */
+function applyChunks(base: string[], start: number, end: number, chunks: Chunk[]): string[] {
+  const result: string[] = [];
+  let index = start;
+
+  for (const chunk of chunks) {
+    result.push(...base.slice(index, chunk.start), ...chunk.lines);
+    index = chunk.end;
+  }
+
+  result.push(...base.slice(index, end));
+  return result;
+}
+
+/**
+ * Three-way merge of texts, line by line
+ *
+ * @param labels Names shown on the conflict markers
+ * @param strategy Resolve conflicts in favor of one side instead of writing markers
+ */
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string } = { ours: 'ours', theirs: 'theirs' },
+  strategy?: MergeStrategy
+): MergeResult {
+  if (ours === theirs || theirs === base) {
+    return { content: ours, conflicts: 0 };
+  }
+  if (ours === base) {
+    return { content: theirs, conflicts: 0 };
+  }
+
+  // Splitting on '\n' keeps a trailing empty line, so trailing newlines round-trip
+  const baseLines = base.split('\n');
+  const chunks = [
+    ...changedChunks(baseLines, ours.split('\n'), 'ours'),
+    ...changedChunks(baseLines, theirs.split('\n'), 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let i = 0;
+
+  while (i < chunks.length) {
+    // Group chunks whose base ranges overlap or touch
+    const group = [chunks[i]];
+    let groupEnd = chunks[i].end;
+    i++;
+    while (i < chunks.length && chunks[i].start <= groupEnd) {
+      group.push(chunks[i]);
+      groupEnd = Math.max(groupEnd, chunks[i].end);
+      i++;
+    }
+
+    const groupStart = group[0].start;
+    output.push(...baseLines.slice(baseIndex, groupStart));
+    baseIndex = groupEnd;
+
+    const ourChunks = group.filter((c) => c.side === 'ours');
+    const theirChunks = group.filter((c) => c.side === 'theirs');
+    const ourLines = applyChunks(baseLines, groupStart, groupEnd, ourChunks);
+    const theirLines = applyChunks(baseLines, groupStart, groupEnd, theirChunks);
+
+    if (ourChunks.length === 0 || theirChunks.length === 0 || ourLines.join('\n') === theirLines.join('\n')) {
+      output.push(...(ourChunks.length > 0 ? ourLines : theirLines));
+      continue;
+    }
+
+    conflicts++;
+    if (strategy === 'ours') {
+      output.push(...ourLines);
+    } else if (strategy === 'theirs') {
+      output.push(...theirLines);
+    } else {
+      output.push(`<<<<<<< ${labels.ours}`, ...ourLines, '=======', ...theirLines, `>>>>>>> ${labels.theirs}`);
+    }
+  }
+
+  output.push(...baseLines.slice(baseIndex));
+
+  return { content: output.join('\n'), conflicts: strategy ? 0 : conflicts };
+}
+
+/**
+ * Merge one file of a skill. Missing files (null) are deletions or additions.
+ *
+ * @returns The merged content (null to delete) and whether a conflict remains
+ */
+function mergeFile(
+  base: Buffer | null,
+  ours: Buffer | null,
+  theirs: Buffer | null,
+  labels: { ours: string; theirs: string },
+  strategy?: MergeStrategy
+): { content: Buffer | null; conflict: boolean } {
+  const same = (a: Buffer | null, b: Buffer | null) => (a === null ? b === null : b !== null && a.equals(b));
+
+  if (same(ours, theirs) || same(theirs, base)) {
+    return { content: ours, conflict: false };
+  }
+  if (same(ours, base)) {
+    return { content: theirs, conflict: false };
+  }
+
+  // Both sides changed the file differently
+  const textMergeable = ours !== null && theirs !== null && !isBinary(ours) && !isBinary(theirs) && !(base && isBinary(base));
+  if (textMergeable) {
+    const result = merge3(
+      base?.toString('utf-8') ?? '',
+      ours!.toString('utf-8'),
+      theirs!.toString('utf-8'),
+      labels,
+      strategy
+    );
+    return { content: Buffer.from(result.content, 'utf-8'), conflict: result.conflicts > 0 };
+  }
+
+  // Deleted on one side and modified on the other, or binary: pick a whole side
+  if (strategy === 'theirs') {
+    return { content: theirs, conflict: false };
+  }
+  if (strategy === 'ours') {
+    return { content: ours, conflict: false };
+  }
+  return { content: ours ?? theirs, conflict: true };
+}
+
+/**
+ * Three-way merge of a skill's SKILL.md and supporting files
+ *
+ * @param base The last-synced content, or null if it's no longer available
+ */
+export function mergeSkill(
+  base: SkillTree | null,
+  ours: SkillTree,
+  theirs: SkillTree,
+  labels: { ours: string; theirs: string },
+  strategy?: MergeStrategy
+): SkillMergeResult {
+  const conflicts: string[] = [];
+
+  const content = merge3(base?.content ?? '', ours.content, theirs.content, labels, strategy);
+  if (content.conflicts > 0) {
+    conflicts.push('SKILL.md');
+  }
+
+  const files: SkillFiles = {};
+  const paths = [...new Set([...Object.keys(ours.files), ...Object.keys(theirs.files)])].sort();
+
+  for (const filePath of paths) {
+    const result = mergeFile(
+      base?.files[filePath] ?? null,
+      ours.files[filePath] ?? null,
+      theirs.files[filePath] ?? null,
+      labels,
+      strategy
+    );
+    if (result.content !== null) {
+      files[filePath] = result.content;
+    }
+    if (result.conflict) {
+      conflicts.push(filePath);
+    }
+  }
+
+  return { content: content.content, files, conflicts };
+}
+
+/**
+ * Check if content still contains unresolved conflict markers from a merge
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<<<<<<< .*$[\s\S]*^=======$[\s\S]*^>>>>>>> /m.test(content);
+}
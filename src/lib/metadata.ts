@@ -0,0 +1,212 @@
+/**
+ * Skill metadata layer
+ *
+ * SKILL.md frontmatter is the source of truth for a skill's name, description,
+ * tags and compat; meta.yaml (in the registry and in projects) mirrors it.
+ * Fields missing from the frontmatter fall back to the stored metadata.
+ */
+
+import * as yaml from 'yaml';
+import { splitFrontmatter, parseFrontmatter } from './frontmatter.js';
+
+/**
+ * Metadata fields kept in sync between frontmatter and meta.yaml
+ */
+export const METADATA_FIELDS = ['name', 'description', 'tags', 'compat'] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+/**
+ * A skill's metadata
+ */
+export interface SkillMetadata {
+  name: string;
+  description?: string;
+  tags: string[];
+  compat: string[];
+}
+
+/**
+ * A field whose frontmatter value differs from the stored metadata
+ */
+export interface MetadataConflict {
+  field: MetadataField;
+  frontmatter: string | string[];
+  stored: string | string[];
+}
+
+/**
+ * Read a string list (array or comma-separated string)
+ */
+function readList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map((v) => v.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * Default display name for a slug, e.g. "db-migrations" → "Db Migrations"
+ */
+export function nameFromSlug(slug: string): string {
+  return slug.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * Read the metadata fields declared in SKILL.md frontmatter. Keys are matched
+ * case-insensitively (older skills use `Name:` and `Description:`).
+ *
+ * @returns Only the fields the frontmatter declares
+ */
+export function readFrontmatterMetadata(content: string): Partial<SkillMetadata> {
+  const { frontmatter } = parseFrontmatter(content);
+  const metadata: Partial<SkillMetadata> = {};
+  if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+    return metadata;
+  }
+
+  for (const [key, value] of Object.entries(frontmatter)) {
+    switch (key.toLowerCase()) {
+      case 'name':
+        if (typeof value === 'string' && value.trim()) metadata.name = value.trim();
+        break;
+      case 'description':
+        if (typeof value === 'string') metadata.description = value.trim();
+        break;
+      case 'tags':
+        metadata.tags = readList(value) ?? metadata.tags;
+        break;
+      case 'compat':
+        metadata.compat = readList(value) ?? metadata.compat;
+        break;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Compare two metadata values (lists ignore order)
+ */
+export function sameValue(a: string | string[] | undefined, b: string | string[] | undefined): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = [...(Array.isArray(a) ? a : [])].sort();
+    const right = [...(Array.isArray(b) ? b : [])].sort();
+    return left.length === right.length && left.every((value, i) => value === right[i]);
+  }
+  return (a || '') === (b || '');
+}
+
+/**
+ * Check if a stored value is set (non-empty)
+ */
+function isSet(value: string | string[] | undefined): value is string | string[] {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/**
+ * Reconcile SKILL.md frontmatter with stored metadata. Frontmatter wins for
+ * the fields it declares; the rest keep their stored values.
+ *
+ * @param stored Metadata from meta.yaml, if any
+ * @returns The reconciled metadata, and the fields where frontmatter overrode a different stored value
+ */
+export function reconcileMetadata(
+  content: string,
+  stored: Partial<SkillMetadata> | null | undefined,
+  slug: string
+): { metadata: SkillMetadata; conflicts: MetadataConflict[] } {
+  const declared = readFrontmatterMetadata(content);
+  const conflicts: MetadataConflict[] = [];
+
+  for (const field of METADATA_FIELDS) {
+    const declaredValue = declared[field];
+    const storedValue = stored?.[field];
+    if (declaredValue !== undefined && isSet(storedValue) && !sameValue(declaredValue, storedValue)) {
+      conflicts.push({ field, frontmatter: declaredValue, stored: storedValue });
+    }
+  }
+
+  const description = declared.description ?? stored?.description;
+
+  return {
+    metadata: {
+      name: declared.name || stored?.name || nameFromSlug(slug),
+      description: description || undefined,
+      tags: declared.tags ?? stored?.tags ?? [],
+      compat: declared.compat ?? stored?.compat ?? [],
+    },
+    conflicts,
+  };
+}
+
+/**
+ * Read a skill's metadata from its content alone
+ */
+export function metadataFromContent(content: string, slug: string): SkillMetadata {
+  return reconcileMetadata(content, null, slug).metadata;
+}
+
+/**
+ * Rewrite metadata fields in SKILL.md frontmatter, keeping other keys,
+ * comments and the body intact. Adds a frontmatter block if there is none.
+ * Empty values remove the field.
+ */
+export function applyMetadataToContent(content: string, updates: Partial<SkillMetadata>): string {
+  const block = splitFrontmatter(content);
+  const doc = block ? yaml.parseDocument(block.yaml) : new yaml.Document({});
+
+  if (doc.errors.length > 0 || (doc.contents !== null && !yaml.isMap(doc.contents))) {
+    throw new Error('Cannot update SKILL.md: its frontmatter is not a valid YAML mapping.');
+  }
+  if (doc.contents === null) {
+    doc.contents = doc.createNode({});
+  }
+
+  const map = doc.contents as yaml.YAMLMap;
+  let changed = false;
+
+  for (const field of METADATA_FIELDS) {
+    if (!(field in updates)) continue;
+    const value = updates[field];
+
+    // Reuse the existing key's spelling (e.g. `Description:`)
+    const existing = map.items.find(
+      (pair) => String(yaml.isScalar(pair.key) ? pair.key.value : pair.key).toLowerCase() === field
+    );
+    const key = existing ? (yaml.isScalar(existing.key) ? existing.key.value : existing.key) : field;
+
+    if (!isSet(value)) {
+      if (existing) {
+        map.delete(key);
+        changed = true;
+      }
+      continue;
+    }
+
+    const current = existing ? (existing.value as yaml.Node | null)?.toJSON?.() : undefined;
+    if (existing && sameValue(current as string | string[] | undefined, value)) continue;
+
+    map.set(key, Array.isArray(value) ? doc.createNode(value, { flow: true }) : value);
+    changed = true;
+  }
+
+  if (!changed) {
+    return content;
+  }
+
+  const frontmatter = doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd();
+  const body = block ? block.body : `\n${content}`;
+  return `---\n${frontmatter}\n---\n${body}`;
+}
+
+/**
+ * Describe a conflict for display, e.g. `description: "Old" → "New"`
+ */
+export function formatConflict(conflict: MetadataConflict): string {
+  const format = (value: string | string[]) => (Array.isArray(value) ? `[${value.join(', ')}]` : `"${value}"`);
+  return `${conflict.field}: ${format(conflict.stored)} → ${format(conflict.frontmatter)}`;
+}
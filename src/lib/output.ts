@@ -0,0 +1,132 @@
+/**
+ * Output helpers shared by commands: human-readable text by default, or a
+ * single JSON document on stdout when the global --json flag is set
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import type { Ora } from 'ora';
+
+/**
+ * Machine-readable error codes included in JSON output
+ */
+export type ErrorCode =
+  | 'NOT_INITIALIZED' // Not in a skills project
+  | 'NOT_FOUND' // Skill, revision or registry doesn't exist
+  | 'INVALID_ARGUMENT' // Bad flag, argument or input
+  | 'NOT_AUTHENTICATED' // Not logged in, or session expired
+  | 'FORBIDDEN' // Logged in but not allowed
+  | 'CONFLICT' // Conflicting state (e.g. merge conflicts, already exists)
+  | 'LOCK_MISMATCH' // Skills don't match .skills.lock (sync --frozen)
+  | 'VALIDATION_FAILED' // Skill files failed validation
+  | 'DRIFT' // Project has drifted from its configuration (status)
+  | 'API_ERROR' // Registry API or network failure
+  | 'UNKNOWN';
+
+/**
+ * An error with a machine-readable code
+ */
+export class CliError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Error object in a JSON document
+ */
+export interface JsonError {
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * The JSON document printed by a command
+ */
+export interface JsonDocument {
+  ok: boolean;
+  command: string; // e.g. "list" or "registry members"
+  data?: unknown;
+  error?: JsonError;
+}
+
+let jsonMode = false;
+let commandName = '';
+
+/**
+ * Switch to JSON output for the command about to run. Colors are disabled so
+ * strings built with chalk come out plain.
+ */
+export function enableJsonMode(command: string): void {
+  jsonMode = true;
+  commandName = command;
+  chalk.level = 0;
+}
+
+/**
+ * Check if the global --json flag is set
+ */
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Create a spinner (silent in JSON mode)
+ */
+export function spinner(text: string): Ora {
+  return ora({ text, isSilent: jsonMode });
+}
+
+/**
+ * Print a command's result as JSON
+ */
+export function printJson(data: unknown): void {
+  const document: JsonDocument = { ok: true, command: commandName, data };
+  console.log(JSON.stringify(document, null, 2));
+}
+
+/**
+ * Report a fatal error and exit with status 1
+ *
+ * @param hints Follow-up suggestions, printed below the error in text mode
+ * @param data Partial results to include in the JSON document
+ */
+export function fail(
+  code: ErrorCode,
+  message: string,
+  options: { hints?: string[]; data?: unknown } = {}
+): never {
+  if (jsonMode) {
+    const document: JsonDocument = {
+      ok: false,
+      command: commandName,
+      ...(options.data !== undefined ? { data: options.data } : {}),
+      error: { code, message },
+    };
+    console.log(JSON.stringify(document, null, 2));
+  } else {
+    console.log(chalk.red(`Error: ${message}`));
+    for (const hint of options.hints || []) {
+      console.log(hint);
+    }
+  }
+  process.exit(1);
+}
+
+/**
+ * Report an unexpected error caught by a command and exit with status 1
+ */
+export function handleError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (jsonMode) {
+    fail(error instanceof CliError ? error.code : 'UNKNOWN', message);
+  }
+
+  console.error(chalk.red('Error:'), message);
+  process.exit(1);
+}
@@ -0,0 +1,280 @@
+/**
+ * Project overrides
+ *
+ * A project can adjust a registry skill without forking it. `sync` applies
+ * overrides/<slug>.md or overrides/<slug>.patch (next to .skills.yaml) on top
+ * of the skill's content, so registry updates keep flowing into the project:
+ * - `<slug>.md` is appended to the skill, or with `mode: replace` in its
+ *   frontmatter, each of its sections replaces the skill's section with the
+ *   same heading
+ * - `<slug>.patch` is a unified diff applied to the skill's content
+ *
+ * An override that no longer applies (a heading or hunk context is gone) fails
+ * the skill's sync, and `skill status` reports it.
+ */
+
+import * as nodeFs from 'fs';
+import * as path from 'path';
+import { findProjectRoot } from './config.js';
+import { parseFrontmatter } from './frontmatter.js';
+import { findHeadings, findSection } from './markdown.js';
+import { merge3 } from './merge.js';
+import { computeHash } from './local-registry/index.js';
+
+/**
+ * Directory holding a project's overrides, next to .skills.yaml
+ */
+export const OVERRIDES_DIR = 'overrides';
+
+/**
+ * A project override for one skill
+ */
+export interface SkillOverride {
+  slug: string;
+  kind: 'markdown' | 'patch';
+  path: string; // Relative to the project root, e.g. overrides/db-migrations.md
+  content: string;
+  sha256: string;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+interface PatchHunk {
+  header: string;
+  oldStart: number; // 1-based, as in the header
+  oldLines: string[];
+  newLines: string[];
+}
+
+const VERSION_COMMENT_LINE = /^\s*<!--\s*version:\s*[^\s]+\s*-->\s*$/;
+
+/**
+ * Get the overrides directory of the current project
+ */
+export function getOverridesDir(): string {
+  const projectRoot = findProjectRoot() || process.cwd();
+  return path.join(projectRoot, OVERRIDES_DIR);
+}
+
+/**
+ * Find the override for a skill in the current project
+ *
+ * @returns The override, or null if the project has none for the skill
+ * @throws If both a markdown and a patch override exist
+ */
+export function findOverride(slug: string): SkillOverride | null {
+  const dir = getOverridesDir();
+  const found = (['markdown', 'patch'] as const)
+    .map((kind) => ({ kind, file: `${slug}.${kind === 'markdown' ? 'md' : 'patch'}` }))
+    .filter(({ file }) => nodeFs.existsSync(path.join(dir, file)));
+
+  if (found.length === 0) {
+    return null;
+  }
+  if (found.length > 1) {
+    throw new Error(`Both ${OVERRIDES_DIR}/${slug}.md and ${OVERRIDES_DIR}/${slug}.patch exist; keep one`);
+  }
+
+  const { kind, file } = found[0];
+  const content = nodeFs.readFileSync(path.join(dir, file), 'utf-8');
+  return { slug, kind, path: `${OVERRIDES_DIR}/${file}`, content, sha256: computeHash(content) };
+}
+
+/**
+ * List the slugs that have an override in the current project
+ */
+export function listOverrideSlugs(): string[] {
+  const dir = getOverridesDir();
+  if (!nodeFs.existsSync(dir)) {
+    return [];
+  }
+
+  const slugs = nodeFs
+    .readdirSync(dir)
+    .map((file) => file.match(/^([a-z0-9-]+)\.(md|patch)$/)?.[1])
+    .filter((slug): slug is string => !!slug);
+  return [...new Set(slugs)].sort();
+}
+
+/**
+ * Apply an override to a skill's content
+ *
+ * @throws If the override no longer applies cleanly
+ */
+export function applyOverride(content: string, override: SkillOverride): string {
+  try {
+    return override.kind === 'patch'
+      ? applyPatch(content, override.content)
+      : applyMarkdownOverride(content, override.content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Override ${override.path} no longer applies: ${reason}`);
+  }
+}
+
+/**
+ * Apply a markdown override: append its body, or replace sections by heading
+ */
+function applyMarkdownOverride(content: string, override: string): string {
+  const { frontmatter, body } = parseFrontmatter(override);
+  const mode = frontmatter.mode ?? 'append';
+  if (mode !== 'append' && mode !== 'replace') {
+    throw new Error(`unknown mode '${String(mode)}' (use append or replace)`);
+  }
+
+  if (mode === 'append') {
+    return `${content.trimEnd()}\n\n${body.trim()}\n`;
+  }
+
+  const overrideLines = body.trim().split('\n');
+  const headings = findHeadings(overrideLines);
+  if (headings.length === 0 || overrideLines.slice(0, headings[0].line).some((line) => line.trim())) {
+    throw new Error('with mode: replace, every line must belong to a section that starts with a heading');
+  }
+
+  let lines = content.split('\n');
+  const missing: string[] = [];
+
+  // Replace the outermost sections; nested headings travel with their parent
+  for (let i = 0; i < headings.length; i++) {
+    const { line, level, text } = headings[i];
+    if (headings.slice(0, i).some((h) => h.level < level)) continue;
+
+    const next = headings.slice(i + 1).find((h) => h.level <= level);
+    const section = overrideLines.slice(line, next ? next.line : overrideLines.length);
+    while (section.length > 0 && !section[section.length - 1].trim()) section.pop();
+
+    const range = findSection(lines, text);
+    if (!range) {
+      missing.push(text);
+      continue;
+    }
+
+    // Keep the version marker, and a blank line before the next heading (or the final newline)
+    const replaced = lines.slice(range.start, range.end);
+    const kept = replaced.filter((l) => VERSION_COMMENT_LINE.test(l));
+    const tail = range.end < lines.length || replaced[replaced.length - 1] === '' ? [''] : [];
+    lines = [
+      ...lines.slice(0, range.start),
+      ...section,
+      ...(kept.length > 0 ? ['', ...kept] : []),
+      ...tail,
+      ...lines.slice(range.end),
+    ];
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`heading${missing.length > 1 ? 's' : ''} not found in the skill: ${missing.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse the hunks of a unified diff (file headers are ignored)
+ */
+function parsePatch(patch: string): PatchHunk[] {
+  const lines = patch.split('\n');
+  const hunks: PatchHunk[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (!match) continue;
+
+    const hunk: PatchHunk = { header: match[0], oldStart: parseInt(match[1], 10), oldLines: [], newLines: [] };
+    let oldCount = match[2] !== undefined ? parseInt(match[2], 10) : 1;
+    let newCount = match[4] !== undefined ? parseInt(match[4], 10) : 1;
+
+    while ((oldCount > 0 || newCount > 0) && i + 1 < lines.length) {
+      const line = lines[++i];
+      if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+      // Editors often strip the leading space of blank context lines
+      const marker = line === '' ? ' ' : line[0];
+      const text = line.slice(1);
+      if (marker === ' ') {
+        hunk.oldLines.push(text);
+        hunk.newLines.push(text);
+        oldCount--;
+        newCount--;
+      } else if (marker === '-') {
+        hunk.oldLines.push(text);
+        oldCount--;
+      } else if (marker === '+') {
+        hunk.newLines.push(text);
+        newCount--;
+      } else {
+        throw new Error(`malformed hunk ${hunk.header}`);
+      }
+    }
+
+    hunks.push(hunk);
+  }
+
+  return hunks;
+}
+
+/**
+ * Check if lines[position...] starts with the expected lines
+ */
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  return expected.every((line, i) => lines[position + i] === line);
+}
+
+/**
+ * Apply a unified diff. Each hunk's context must match exactly, but may have
+ * moved since the patch was written.
+ */
+export function applyPatch(content: string, patch: string): string {
+  const hunks = parsePatch(patch);
+  if (hunks.length === 0) {
+    throw new Error('the patch has no hunks');
+  }
+
+  const lines = content.split('\n');
+  let offset = 0;
+  let minPosition = 0;
+
+  hunks.forEach((hunk, index) => {
+    const expected = Math.max(hunk.oldStart - (hunk.oldLines.length > 0 ? 1 : 0) + offset, minPosition);
+    const last = lines.length - hunk.oldLines.length;
+
+    // Search outward from where the hunk should be
+    let position = -1;
+    for (let distance = 0; position === -1 && distance <= lines.length; distance++) {
+      for (const candidate of [expected - distance, expected + distance]) {
+        if (candidate >= minPosition && candidate <= last && matchesAt(lines, hunk.oldLines, candidate)) {
+          position = candidate;
+          break;
+        }
+      }
+    }
+
+    if (position === -1) {
+      throw new Error(`hunk ${index + 1} (${hunk.header}) does not match the skill's content`);
+    }
+
+    lines.splice(position, hunk.oldLines.length, ...hunk.newLines);
+    offset += position - expected + hunk.newLines.length - hunk.oldLines.length;
+    minPosition = position + hunk.newLines.length;
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Take a project override back out of an installed copy, keeping local edits.
+ * Edits are merged onto the content the override was applied to.
+ *
+ * @param synced The installed content as it was synced (with the override)
+ * @param base The content the override was applied to
+ * @throws If local edits overlap the override's changes
+ */
+export function removeOverride(installed: string, synced: string, base: string, overridePath: string): string {
+  const { content, conflicts } = merge3(synced, installed, base);
+  if (conflicts > 0) {
+    throw new Error(`Local edits overlap the project override; make those edits in ${overridePath} instead`);
+  }
+  return content;
+}
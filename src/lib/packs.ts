@@ -0,0 +1,85 @@
+/**
+ * Skill packs
+ *
+ * A pack is a named set of skills (slugs with optional version constraints)
+ * kept in the local registry or a cloud registry. `skill add pack:<name>`
+ * adds its skills to .skills.yaml, marking each entry with the pack and
+ * recording the pack under `packs`, so `skill pack update` can apply later
+ * changes to it.
+ */
+
+import * as api from './api.js';
+import * as localRegistry from './local-registry/index.js';
+import { CliError } from './output.js';
+import type { SkillPack, SkillSource } from '../types.js';
+import { isCloudSource } from '../types.js';
+
+/**
+ * Prefix marking a pack in `skill add` arguments
+ */
+export const PACK_PREFIX = 'pack:';
+
+/**
+ * Check if a `skill add` argument names a pack, e.g. `pack:web-app`
+ */
+export function isPackSpec(spec: string): boolean {
+  return spec.startsWith(PACK_PREFIX);
+}
+
+/**
+ * Get the pack name from a `pack:<name>` argument
+ *
+ * @throws If the name isn't a valid pack name
+ */
+export function parsePackSpec(spec: string): string {
+  const name = spec.slice(PACK_PREFIX.length).trim();
+  if (!isValidPackName(name)) {
+    throw new Error(`Invalid pack name '${name}'. Pack names are lowercase alphanumeric with hyphens only.`);
+  }
+  return name;
+}
+
+/**
+ * Check if a pack name is valid (lowercase, hyphens allowed)
+ */
+export function isValidPackName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9-]*$/.test(name);
+}
+
+/**
+ * Describe where packs come from, e.g. `local registry` or `cloud registry (acme)`
+ */
+export function describeSource(source: SkillSource | undefined): string {
+  return source && isCloudSource(source) ? `cloud registry (${source.registry})` : 'local registry';
+}
+
+/**
+ * Read a pack from a source's registry (the local registry when no cloud source is given)
+ *
+ * @returns The pack, or null if the registry has no pack by that name
+ */
+export async function getPack(source: SkillSource | undefined, name: string): Promise<SkillPack | null> {
+  if (source && isCloudSource(source)) {
+    try {
+      return await api.getPack(source.registry, name);
+    } catch (error) {
+      if (error instanceof CliError && error.code === 'NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return localRegistry.getPack(name);
+}
+
+/**
+ * List the packs in a source's registry
+ */
+export async function listPacks(source: SkillSource | undefined): Promise<SkillPack[]> {
+  if (source && isCloudSource(source)) {
+    return api.listPacks(source.registry);
+  }
+
+  return localRegistry.listPacks();
+}
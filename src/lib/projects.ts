@@ -0,0 +1,72 @@
+/**
+ * Known projects
+ *
+ * Every project that runs `skill sync` is recorded in ~/.overskill/projects.yaml,
+ * so commands like `skill watch` can update the projects using a skill.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { getConfigPath } from './auth.js';
+
+/**
+ * Get the path to the known projects file (~/.overskill/projects.yaml)
+ */
+export function getProjectsPath(): string {
+  return path.join(path.dirname(getConfigPath()), 'projects.yaml');
+}
+
+/**
+ * Read the recorded project roots, including ones that no longer exist
+ */
+function readProjects(): string[] {
+  const projectsPath = getProjectsPath();
+  if (!fs.existsSync(projectsPath)) {
+    return [];
+  }
+
+  try {
+    const parsed = yaml.parse(fs.readFileSync(projectsPath, 'utf-8')) as { projects?: unknown } | null;
+    return Array.isArray(parsed?.projects)
+      ? parsed.projects.filter((p): p is string => typeof p === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write the project roots (sorted for stable diffs)
+ */
+function writeProjects(projects: string[]): void {
+  const projectsPath = getProjectsPath();
+  fs.mkdirSync(path.dirname(projectsPath), { recursive: true });
+  const content = yaml.stringify({ projects: [...new Set(projects)].sort() }, { lineWidth: 0 });
+  fs.writeFileSync(projectsPath, content, 'utf-8');
+}
+
+/**
+ * List known project roots that still have a .skills.yaml
+ */
+export function listKnownProjects(): string[] {
+  return readProjects().filter((root) => fs.existsSync(path.join(root, '.skills.yaml')));
+}
+
+/**
+ * Record a project root, dropping projects whose .skills.yaml is gone.
+ * Failures are ignored: the list is a convenience, not a requirement.
+ */
+export function registerProject(root: string): void {
+  try {
+    const projects = readProjects();
+    const resolved = path.resolve(root);
+    const known = listKnownProjects();
+    if (projects.includes(resolved) && known.length === projects.length) {
+      return;
+    }
+    writeProjects([...known, resolved]);
+  } catch {
+    // Ignore: a read-only home directory shouldn't break sync
+  }
+}
@@ -0,0 +1,482 @@
+import * as config from './config.js';
+import * as api from './api.js';
+import * as localRegistry from './local-registry/index.js';
+import * as fs from './fs.js';
+import { metadataFromContent } from './metadata.js';
+import { composeSkill, hasReferences } from './compose.js';
+import { findOverride, applyOverride } from './overrides.js';
+import type { SkillOverride } from './overrides.js';
+import * as semverLib from './semver.js';
+import { toManifest } from './skill-files.js';
+import type { SkillFiles, SkillFileManifest } from './skill-files.js';
+import type { SkillEntry, SkillMeta, CloudSource, LockedSkill, SyncResponse } from '../types.js';
+import { isCloudSource } from '../types.js';
+
+/**
+ * A skill entry resolved to concrete content, ready to be installed
+ */
+export interface ResolvedSkill {
+  slug: string;
+  source: string;
+  version?: string;
+  content: string;
+  sha256: string;
+  files: SkillFiles; // Supporting files (always empty for cloud sources)
+  meta: Omit<SkillMeta, 'sha256' | 'files'>;
+}
+
+/**
+ * A skill entry that could not be resolved
+ */
+export interface ResolveError {
+  slug: string;
+  source?: string;
+  error: string;
+  override?: string; // Path of the project override that failed to apply, if that was the problem
+}
+
+export interface ResolveResult {
+  skills: ResolvedSkill[];
+  errors: ResolveError[];
+}
+
+/**
+ * The version a constraint resolved to
+ */
+export interface VersionResolution {
+  version: string;
+  sha256?: string; // Only known for local sources
+  files?: SkillFileManifest; // Only known for local sources
+  available: string[];
+}
+
+/**
+ * Hash content, writing it to the object store when persisting
+ */
+function storeContent(content: string, persist: boolean): string {
+  return persist ? localRegistry.writeObject(content) : localRegistry.computeHash(content);
+}
+
+/**
+ * Pick the highest version satisfying a constraint, or throw a descriptive error
+ */
+function pickVersion(slug: string, constraint: string, available: string[]): string {
+  if (!semverLib.isValidConstraint(constraint)) {
+    throw new Error(`Invalid version constraint '${constraint}' for '${slug}'`);
+  }
+
+  const version = semverLib.resolveVersion(available, constraint);
+  if (!version) {
+    const availableText = available.length > 0 ? available.join(', ') : 'none recorded';
+    throw new Error(
+      `No version of '${slug}' satisfies '${constraint}' (available: ${availableText})`
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Resolve a version constraint against the local registry's version history
+ */
+export function resolveLocalVersion(slug: string, constraint: string): VersionResolution {
+  const versions = localRegistry.listSkillVersions(slug);
+  const available = versions.map((v) => v.version);
+  const version = pickVersion(slug, constraint, available);
+  const match = versions.find((v) => v.version === version)!;
+
+  return {
+    version,
+    sha256: match.sha256,
+    files: match.files,
+    available,
+  };
+}
+
+/**
+ * Resolve a version constraint against a cloud registry's published versions
+ */
+export async function resolveCloudVersion(
+  source: CloudSource,
+  slug: string,
+  constraint: string
+): Promise<VersionResolution> {
+  const versions = await api.listVersions(source.registry, slug);
+  const available = semverLib.sortVersionsDesc(
+    versions.map((v) => v.version).filter(semverLib.isValidVersion)
+  );
+
+  return {
+    version: pickVersion(slug, constraint, available),
+    available,
+  };
+}
+
+/**
+ * Resolve a skill from the local registry
+ */
+function resolveLocalSkill(entry: SkillEntry, sourceName: string): ResolvedSkill | ResolveError {
+  const { slug } = entry;
+
+  if (!localRegistry.skillExists(slug)) {
+    return {
+      slug,
+      source: sourceName,
+      error: `Not found in local cache. Run \`skill new ${slug}\` or \`skill import\``,
+    };
+  }
+
+  const skillData = localRegistry.getSkill(slug);
+  if (!skillData) {
+    return {
+      slug,
+      source: sourceName,
+      error: 'Failed to read from cache (possibly corrupted)',
+    };
+  }
+
+  if (entry.version) {
+    let resolution: VersionResolution;
+    try {
+      resolution = resolveLocalVersion(slug, entry.version);
+    } catch (error) {
+      return {
+        slug,
+        source: sourceName,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const content = localRegistry.readObject(resolution.sha256!);
+    const files = localRegistry.readSkillFiles(resolution.files);
+    if (content === null || files === null) {
+      return {
+        slug,
+        source: sourceName,
+        error: `Content for version ${resolution.version} is missing from the cache (possibly corrupted)`,
+      };
+    }
+
+    return {
+      slug,
+      source: sourceName,
+      version: resolution.version,
+      content,
+      sha256: resolution.sha256!,
+      files,
+      meta: {
+        slug,
+        name: skillData.meta.name,
+        description: skillData.meta.description,
+        tags: skillData.meta.tags,
+        compat: skillData.meta.compat,
+      },
+    };
+  }
+
+  return {
+    slug,
+    source: sourceName,
+    version: semverLib.extractVersionComment(skillData.content) || undefined,
+    content: skillData.content,
+    sha256: skillData.sha256,
+    files: skillData.files,
+    meta: {
+      slug,
+      name: skillData.meta.name,
+      description: skillData.meta.description,
+      tags: skillData.meta.tags,
+      compat: skillData.meta.compat,
+    },
+  };
+}
+
+/**
+ * Resolve skills from cloud sources with one sync request per registry.
+ * Fetched content is verified and, when persisting, cached in the local object store.
+ */
+async function resolveCloudSkills(
+  requests: Array<{ entry: SkillEntry; source: CloudSource }>,
+  persist: boolean
+): Promise<ResolveResult> {
+  const result: ResolveResult = { skills: [], errors: [] };
+
+  // Resolve version constraints to exact versions before syncing
+  const pending: Array<{ entry: SkillEntry; source: CloudSource; version?: string }> = [];
+  for (const { entry, source } of requests) {
+    if (!entry.version) {
+      pending.push({ entry, source });
+      continue;
+    }
+
+    try {
+      const { version } = await resolveCloudVersion(source, entry.slug, entry.version);
+      pending.push({ entry, source, version });
+    } catch (error) {
+      result.errors.push({
+        slug: entry.slug,
+        source: source.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Sync each registry separately: the response identifies skills by slug only
+  const byRegistry = new Map<string, typeof pending>();
+  for (const request of pending) {
+    byRegistry.set(request.source.registry, [...(byRegistry.get(request.source.registry) || []), request]);
+  }
+
+  for (const [registry, group] of byRegistry) {
+    let response;
+    try {
+      response = await api.sync(
+        group.map(({ entry, version }) => ({
+          registry,
+          slug: entry.slug,
+          ...(version ? { version } : {}),
+        }))
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const { entry, source } of group) {
+        result.errors.push({ slug: entry.slug, source: source.name, error: message });
+      }
+      continue;
+    }
+
+    for (const { entry, source, version } of group) {
+      const resolved = resolveCloudResponse(response, entry, source, version, persist);
+      if ('error' in resolved) {
+        result.errors.push(resolved);
+      } else {
+        result.skills.push(resolved);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Turn one entry of a registry's sync response into a resolved skill
+ */
+function resolveCloudResponse(
+  response: SyncResponse,
+  entry: SkillEntry,
+  source: CloudSource,
+  version: string | undefined,
+  persist: boolean
+): ResolvedSkill | ResolveError {
+  const apiError = response.errors.find(
+    (e) => e.slug === entry.slug && e.registry === source.registry
+  );
+  if (apiError) {
+    return { slug: entry.slug, source: source.name, error: apiError.error };
+  }
+
+  const skill = response.skills.find((s) => s.slug === entry.slug);
+  if (!skill) {
+    return {
+      slug: entry.slug,
+      source: source.name,
+      error: `Not returned by registry '${source.registry}'`,
+    };
+  }
+
+  // Cache in the content-addressed store; the returned hash doubles as a checksum
+  const sha256 = storeContent(skill.content, persist);
+  if (sha256 !== skill.sha256) {
+    return {
+      slug: entry.slug,
+      source: source.name,
+      error: `Checksum mismatch (expected ${skill.sha256.slice(0, 12)}…, got ${sha256.slice(0, 12)}…)`,
+    };
+  }
+
+  const metadata = metadataFromContent(skill.content, entry.slug);
+
+  return {
+    slug: entry.slug,
+    source: source.name,
+    version: version || skill.version || semverLib.extractVersionComment(skill.content) || undefined,
+    content: skill.content,
+    sha256,
+    files: {},
+    meta: {
+      slug: entry.slug,
+      name: metadata.name,
+      description: metadata.description || undefined,
+      tags: metadata.tags,
+      compat: metadata.compat,
+    },
+  };
+}
+
+/**
+ * Build installable metadata from content, preferring the project's meta.yaml
+ * when it describes the same content
+ */
+function metaForContent(
+  slug: string,
+  content: string,
+  sha256: string
+): Omit<SkillMeta, 'sha256' | 'files'> {
+  const installedMeta = fs.readSkillMeta(slug);
+  if (installedMeta && installedMeta.sha256 === sha256) {
+    const { sha256: _sha256, files: _files, ...meta } = installedMeta;
+    return meta;
+  }
+
+  const metadata = metadataFromContent(content, slug);
+  return {
+    slug,
+    name: metadata.name,
+    description: metadata.description || undefined,
+    tags: metadata.tags,
+    compat: metadata.compat,
+  };
+}
+
+/**
+ * Resolve a locked skill directly from the content-addressed object store.
+ * Used to serve pinned content exactly when its source can't provide it.
+ *
+ * @returns The pinned skill, or null if the object isn't cached locally
+ */
+export function resolveFromObjectStore(locked: LockedSkill): ResolvedSkill | null {
+  const content = localRegistry.readObject(locked.sha256);
+  const files = localRegistry.readSkillFiles(locked.files);
+  if (content === null || files === null) {
+    return null;
+  }
+
+  return {
+    slug: locked.slug,
+    source: locked.source,
+    version: locked.version,
+    content,
+    sha256: locked.sha256,
+    files,
+    meta: {
+      ...metaForContent(locked.slug, content, locked.sha256),
+      ...(locked.includes ? { includes: locked.includes } : {}),
+      ...(locked.override ? { override: locked.override } : {}),
+    },
+  };
+}
+
+/**
+ * Convert a resolved skill to its lockfile entry
+ */
+export function toLockedSkill(skill: ResolvedSkill): LockedSkill {
+  const files = toManifest(skill.files);
+  return {
+    slug: skill.slug,
+    source: skill.source,
+    ...(skill.version ? { version: skill.version } : {}),
+    sha256: skill.sha256,
+    ...(Object.keys(files).length > 0 ? { files } : {}),
+    ...(skill.meta.includes && Object.keys(skill.meta.includes).length > 0 ? { includes: skill.meta.includes } : {}),
+    ...(skill.meta.override ? { override: skill.meta.override } : {}),
+  };
+}
+
+/**
+ * Resolve skill entries from .skills.yaml to installable content,
+ * reading local sources from the local registry and cloud sources via the sync API.
+ * Results preserve the order of the given entries.
+ *
+ * @param options.persist Cache fetched, composed and overridden content in the
+ *   object store (default true). Set to false to only check what would be installed.
+ */
+export async function resolveSkills(entries: SkillEntry[], options: { persist?: boolean } = {}): Promise<ResolveResult> {
+  const persist = options.persist ?? true;
+  const resolved = new Map<SkillEntry, ResolvedSkill | ResolveError>();
+  const cloudRequests: Array<{ entry: SkillEntry; source: CloudSource }> = [];
+
+  for (const entry of entries) {
+    const source = config.getSourceForSkill(entry);
+
+    if (!source) {
+      resolved.set(entry, {
+        slug: entry.slug,
+        source: entry.source,
+        error: entry.source
+          ? `Source '${entry.source}' not found in .skills.yaml`
+          : 'No source configured. Add a source in .skills.yaml',
+      });
+      continue;
+    }
+
+    if (isCloudSource(source)) {
+      cloudRequests.push({ entry, source });
+    } else {
+      resolved.set(entry, resolveLocalSkill(entry, source.name));
+    }
+  }
+
+  const cloudResult = await resolveCloudSkills(cloudRequests, persist);
+  for (const { entry, source } of cloudRequests) {
+    const match =
+      cloudResult.skills.find((s) => s.slug === entry.slug && s.source === source.name) ||
+      cloudResult.errors.find((e) => e.slug === entry.slug && e.source === source.name);
+    if (match) {
+      resolved.set(entry, match);
+    }
+  }
+
+  const result: ResolveResult = { skills: [], errors: [] };
+  for (const entry of entries) {
+    const item = resolved.get(entry);
+    if (!item) continue;
+    if ('error' in item) {
+      result.errors.push(item);
+      continue;
+    }
+
+    let overridePath: string | undefined;
+    try {
+      const composed = composeResolved(item, persist);
+      const override = findOverride(item.slug);
+      overridePath = override?.path;
+      result.skills.push(override ? overrideResolved(composed, override, persist) : composed);
+    } catch (error) {
+      result.errors.push({
+        slug: item.slug,
+        source: item.source,
+        error: error instanceof Error ? error.message : String(error),
+        ...(overridePath ? { override: overridePath } : {}),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compose the skills a resolved skill includes or extends into its content.
+ * The composed content is stored as its own object (when persisting), so it can be pinned in
+ * .skills.lock and used as the merge base for local edits.
+ */
+function composeResolved(skill: ResolvedSkill, persist: boolean): ResolvedSkill {
+  if (!hasReferences(skill.content)) {
+    return skill;
+  }
+
+  const { content, includes } = composeSkill(skill.slug, skill.content);
+  const sha256 = storeContent(content, persist);
+  return { ...skill, content, sha256, meta: { ...skill.meta, includes } };
+}
+
+/**
+ * Apply the project's override to a resolved skill. Like composed content, the
+ * result is stored as its own object; the content the override was applied to
+ * is recorded too, so saving an installed copy can take the override back out.
+ */
+function overrideResolved(skill: ResolvedSkill, override: SkillOverride, persist: boolean): ResolvedSkill {
+  const content = applyOverride(skill.content, override);
+  const base = storeContent(skill.content, persist);
+  const sha256 = storeContent(content, persist);
+  return { ...skill, content, sha256, meta: { ...skill.meta, override: override.sha256, override_base: base } };
+}
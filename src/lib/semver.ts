@@ -72,6 +72,13 @@ export function isEqual(v1: string, v2: string): boolean {
   return semver.eq(v1, v2);
 }
 
+/**
+ * Check if a constraint is a valid exact version or semver range
+ */
+export function isValidConstraint(constraint: string): boolean {
+  return semver.validRange(constraint.trim()) !== null;
+}
+
 /**
  * Parse a version constraint
  * Supports: exact (1.0.0), range (>=1.0.0, ^1.0.0, ~1.0.0)
@@ -131,3 +138,14 @@ export function sortVersionsDesc(versions: string[]): string[] {
 export function sortVersionsAsc(versions: string[]): string[] {
   return [...versions].sort(semver.compare);
 }
+
+/**
+ * Extract the version from a SKILL.md `<!-- version: x.y.z -->` marker comment
+ */
+export function extractVersionComment(content: string): string | null {
+  const match = content.match(/<!--\s*version:\s*([^\s]+)\s*-->/);
+  if (!match || !isValidVersion(match[1])) {
+    return null;
+  }
+  return match[1];
+}
@@ -0,0 +1,179 @@
+/**
+ * Supporting files that ship alongside a skill's SKILL.md
+ * (scripts, reference docs, templates, examples)
+ *
+ * A skill is stored as SKILL.md plus a manifest mapping each supporting
+ * file's relative path to the sha256 of its content.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+/**
+ * Supporting file contents, keyed by POSIX path relative to the skill directory
+ */
+export type SkillFiles = Record<string, Buffer>;
+
+/**
+ * Supporting file hashes, keyed by POSIX path relative to the skill directory
+ */
+export type SkillFileManifest = Record<string, string>;
+
+// Files at the root of a skill directory that are managed by the CLI itself
+const RESERVED_ROOT_FILES = ['SKILL.md', 'meta.yaml', '.modified'];
+
+// Entries never treated as part of a skill, at any depth
+const IGNORED_NAMES = ['.git', 'node_modules', '.DS_Store'];
+
+/**
+ * Check if a relative path is safe to write inside a skill directory
+ */
+export function isValidSkillFilePath(relativePath: string): boolean {
+  if (!relativePath || relativePath.startsWith('/') || relativePath.includes('\\')) {
+    return false;
+  }
+
+  const parts = relativePath.split('/');
+  if (parts.some((part) => part === '' || part === '.' || part === '..')) {
+    return false;
+  }
+
+  return !(parts.length === 1 && RESERVED_ROOT_FILES.includes(parts[0]));
+}
+
+/**
+ * Collect the supporting files in a skill directory (everything except
+ * SKILL.md and CLI-managed files), sorted by path
+ */
+export function collectSkillFiles(skillDir: string): SkillFiles {
+  const files: SkillFiles = {};
+
+  if (!fs.existsSync(skillDir)) {
+    return files;
+  }
+
+  const walk = (dir: string, prefix: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (IGNORED_NAMES.includes(entry.name)) continue;
+
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        walk(fullPath, relativePath);
+      } else if (entry.isFile() && isValidSkillFilePath(relativePath)) {
+        files[relativePath] = fs.readFileSync(fullPath);
+      }
+    }
+  };
+
+  walk(skillDir, '');
+  return files;
+}
+
+/**
+ * Write supporting files into a skill directory.
+ * Files listed in `previous` that are no longer part of the skill are removed,
+ * so files the user added by hand are left alone.
+ */
+export function writeSkillFiles(skillDir: string, files: SkillFiles, previous: string[] = []): void {
+  for (const relativePath of previous) {
+    if (relativePath in files || !isValidSkillFilePath(relativePath)) continue;
+
+    const fullPath = path.join(skillDir, relativePath);
+    if (fs.existsSync(fullPath)) {
+      fs.unlinkSync(fullPath);
+      removeEmptyParents(skillDir, path.dirname(fullPath));
+    }
+  }
+
+  for (const [relativePath, content] of Object.entries(files)) {
+    if (!isValidSkillFilePath(relativePath)) {
+      throw new Error(`Invalid supporting file path '${relativePath}'`);
+    }
+
+    const fullPath = path.join(skillDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+}
+
+/**
+ * Remove empty directories between a removed file and the skill directory
+ */
+function removeEmptyParents(skillDir: string, dir: string): void {
+  const root = path.resolve(skillDir);
+  let current = path.resolve(dir);
+
+  while (current !== root && current.startsWith(root + path.sep)) {
+    if (fs.readdirSync(current).length > 0) break;
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * Build the manifest (path → sha256) for a set of supporting files
+ */
+export function toManifest(files: SkillFiles): SkillFileManifest {
+  const manifest: SkillFileManifest = {};
+
+  for (const relativePath of Object.keys(files).sort()) {
+    manifest[relativePath] = crypto.createHash('sha256').update(files[relativePath]).digest('hex');
+  }
+
+  return manifest;
+}
+
+/**
+ * Check if two manifests describe the same files (a missing manifest means no files)
+ */
+export function sameManifest(a?: SkillFileManifest, b?: SkillFileManifest): boolean {
+  const aPaths = Object.keys(a || {});
+  const bPaths = Object.keys(b || {});
+
+  if (aPaths.length !== bPaths.length) {
+    return false;
+  }
+
+  return aPaths.every((relativePath) => a![relativePath] === b?.[relativePath]);
+}
+
+/**
+ * Heuristic check for binary content (a NUL byte near the start)
+ */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * A supporting file that differs between two manifests
+ */
+export interface SkillFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+}
+
+/**
+ * List the supporting files added, modified or deleted going from `before` to `after`
+ */
+export function compareManifests(before: SkillFileManifest = {}, after: SkillFileManifest = {}): SkillFileChange[] {
+  const changes: SkillFileChange[] = [];
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  for (const relativePath of paths) {
+    if (!(relativePath in before)) {
+      changes.push({ path: relativePath, status: 'added' });
+    } else if (!(relativePath in after)) {
+      changes.push({ path: relativePath, status: 'deleted' });
+    } else if (before[relativePath] !== after[relativePath]) {
+      changes.push({ path: relativePath, status: 'modified' });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,512 @@
+/**
+ * Install targets: adapters that render installed skills into each agent's
+ * native format during sync, and clean up what they wrote when a target is
+ * disabled or a skill is removed
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { findProjectRoot, getInstallPath, readConfig } from './config.js';
+import {
+  ensureDir,
+  getClaudeSkillsDir,
+  getSkillDir,
+  getSystemDir,
+  listClaudeNativeSkillLinks,
+  readSkillContent,
+  readSkillMeta,
+  removeEmptyDirs,
+  setSkillUnlisted,
+  skillExists,
+  syncClaudeNativeSkills,
+  writeSystemSkill,
+} from './fs.js';
+import { splitFrontmatter } from './frontmatter.js';
+import { writeIndex } from './index-gen.js';
+import { META_SKILL_CONTENT } from './meta-skill.js';
+import type { IntegrationName, SkillMeta, SkillsConfig, TargetName } from '../types.js';
+
+/**
+ * All supported targets
+ */
+export const TARGET_NAMES: readonly TargetName[] = ['claude', 'cursor', 'codex', 'windsurf', 'copilot', 'gemini'];
+
+/**
+ * Targets used when `.skills.yaml` doesn't list any
+ */
+export const DEFAULT_TARGETS: readonly TargetName[] = ['claude', 'cursor', 'codex'];
+
+/**
+ * All agent file integrations
+ */
+export const INTEGRATION_NAMES: readonly IntegrationName[] = [
+  'claude_skills',
+  'claude_md',
+  'agents_md',
+  'cursor_rules',
+  'windsurf_rules',
+  'copilot_instructions',
+  'gemini_md',
+];
+
+const TARGET_LABELS: Record<TargetName, string> = {
+  claude: 'Claude',
+  cursor: 'Cursor',
+  codex: 'Codex',
+  windsurf: 'Windsurf',
+  copilot: 'Copilot',
+  gemini: 'Gemini',
+};
+
+// Compat values that select each target (other values match no target)
+const COMPAT_TARGETS: Record<string, TargetName> = {
+  claude: 'claude',
+  'claude-code': 'claude',
+  cursor: 'cursor',
+  codex: 'codex',
+  windsurf: 'windsurf',
+  copilot: 'copilot',
+  gemini: 'gemini',
+};
+
+const START_MARKER = '<!-- overskill-start -->';
+const END_MARKER = '<!-- overskill-end -->';
+
+// Prefix of per-skill rule files, so stale ones can be told apart from the user's own rules
+const RULE_PREFIX = 'overskill-';
+
+/**
+ * An installed skill, as handed to target adapters
+ */
+export interface TargetSkill {
+  slug: string;
+  meta: SkillMeta;
+  compat: string[]; // Effective compat (the project's override, if any)
+  body: string; // SKILL.md without frontmatter
+  path: string; // SKILL.md path relative to the project root
+}
+
+/**
+ * Writes one integration's files for an agent
+ */
+interface TargetAdapter {
+  target: TargetName;
+  integration: IntegrationName;
+  sync(skills: TargetSkill[]): void;
+  clean(dryRun?: boolean): string[]; // Removes what sync wrote, returning the paths removed or changed
+}
+
+/**
+ * Result of syncing targets
+ */
+export interface TargetSyncResult {
+  synced: TargetName[]; // Targets with at least one enabled integration
+  unknown: string[]; // Unrecognized names in `.skills.yaml`
+}
+
+function projectPath(...segments: string[]): string {
+  return path.join(findProjectRoot() || process.cwd(), ...segments);
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+function relativePath(p: string): string {
+  return toPosix(path.relative(findProjectRoot() || process.cwd(), p));
+}
+
+/**
+ * Check if sync may write an integration's files (everything is enabled
+ * unless switched off under `integrations` in `.skills.yaml`)
+ */
+export function isIntegrationEnabled(config: SkillsConfig, name: IntegrationName): boolean {
+  return config.integrations?.[name] !== false;
+}
+
+/**
+ * Get the targets configured for a project
+ */
+export function getTargets(config: SkillsConfig): { targets: TargetName[]; unknown: string[] } {
+  const configured: string[] = config.targets ?? [...DEFAULT_TARGETS];
+  return {
+    targets: TARGET_NAMES.filter((name) => configured.includes(name)),
+    unknown: configured.filter((name) => !(TARGET_NAMES as readonly string[]).includes(name)),
+  };
+}
+
+/**
+ * Get a skill's compat in a project: the `.skills.yaml` entry's override, if
+ * set, else the skill's own
+ */
+export function getEffectiveCompat(config: SkillsConfig, slug: string, compat: string[]): string[] {
+  return config.skills.find((skill) => skill.slug === slug)?.compat ?? compat;
+}
+
+/**
+ * Get the targets a skill is delivered to. A skill without compat values
+ * works with every agent; otherwise only targets its compat names are used.
+ */
+export function getDeliveryTargets(compat: string[], targets: readonly TargetName[]): TargetName[] {
+  if (compat.length === 0) {
+    return [...targets];
+  }
+  const wanted = new Set(compat.map((value) => COMPAT_TARGETS[value.trim().toLowerCase()]));
+  return targets.filter((target) => wanted.has(target));
+}
+
+/**
+ * Upsert a managed section (between start/end markers) in a markdown file.
+ * Creates the file if it doesn't exist, appends if no section found, replaces if found.
+ */
+function upsertManagedSection(filePath: string, section: string): void {
+  if (!fs.existsSync(filePath)) {
+    ensureDir(path.dirname(filePath));
+    fs.writeFileSync(filePath, section + '\n', 'utf-8');
+    return;
+  }
+
+  let content = fs.readFileSync(filePath, 'utf-8');
+  const startIdx = content.indexOf(START_MARKER);
+  const endIdx = content.indexOf(END_MARKER);
+
+  if (startIdx !== -1 && endIdx !== -1) {
+    content = content.slice(0, startIdx) + section + content.slice(endIdx + END_MARKER.length);
+  } else {
+    if (!content.endsWith('\n')) {
+      content += '\n';
+    }
+    content += '\n' + section + '\n';
+  }
+
+  fs.writeFileSync(filePath, content, 'utf-8');
+}
+
+/**
+ * Remove the managed section from a markdown file, deleting the file if
+ * nothing else is left in it
+ */
+function removeManagedSection(filePath: string, dryRun = false): string[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const startIdx = content.indexOf(START_MARKER);
+  const endIdx = content.indexOf(END_MARKER);
+  if (startIdx === -1 || endIdx === -1) {
+    return [];
+  }
+  if (dryRun) {
+    return [relativePath(filePath)];
+  }
+
+  const remaining = (content.slice(0, startIdx).trimEnd() + '\n\n' + content.slice(endIdx + END_MARKER.length).trimStart()).trim();
+  if (remaining === '') {
+    fs.unlinkSync(filePath);
+    removeEmptyDirs(path.dirname(filePath));
+  } else {
+    fs.writeFileSync(filePath, remaining + '\n', 'utf-8');
+  }
+  return [relativePath(filePath)];
+}
+
+/**
+ * Section pointing agents at the skills index (for agents that load skills natively)
+ */
+function indexSection(): string {
+  return `${START_MARKER}
+## Overskill Skills
+
+This project uses Overskill to manage reusable AI skills.
+
+Before starting any task, read \`.claude/skills/SKILLS_INDEX.md\` to discover available skills. When a skill is relevant to your current task, read its full SKILL.md file and follow its instructions.
+
+To manage skills, use the \`skill\` CLI command (run \`skill --help\` for usage).
+${END_MARKER}`;
+}
+
+/**
+ * Section listing each skill with its description and file
+ */
+function skillsSection(skills: TargetSkill[]): string {
+  const lines = [
+    START_MARKER,
+    '## Overskill Skills',
+    '',
+    'This project uses Overskill to manage reusable AI skills. When a skill below is relevant to your current task, read its SKILL.md file and follow its instructions.',
+    '',
+  ];
+
+  for (const skill of skills) {
+    lines.push(`### ${skill.meta.name || skill.slug}`);
+    if (skill.meta.description) {
+      lines.push(skill.meta.description);
+    }
+    lines.push(`File: \`${skill.path}\``);
+    lines.push('');
+  }
+
+  lines.push('To manage skills, use the `skill` CLI command (run `skill --help` for usage).');
+  lines.push(END_MARKER);
+  return lines.join('\n');
+}
+
+/**
+ * Note at the top of generated rule files
+ */
+function generatedNote(skill: TargetSkill): string {
+  return `<!-- Generated by Overskill from ${skill.path}. Edit the skill and run \`skill sync\` instead of editing this file. -->`;
+}
+
+/**
+ * Write one rule file per skill into a directory, removing rule files for
+ * skills that are no longer installed
+ */
+function syncRuleFiles(dir: string, extension: string, skills: TargetSkill[], render: (skill: TargetSkill) => string): void {
+  ensureDir(dir);
+
+  const wanted = new Set(skills.map((skill) => `${RULE_PREFIX}${skill.slug}${extension}`));
+  for (const entry of fs.readdirSync(dir)) {
+    if (entry.startsWith(RULE_PREFIX) && entry.endsWith(extension) && !wanted.has(entry)) {
+      fs.unlinkSync(path.join(dir, entry));
+    }
+  }
+
+  for (const skill of skills) {
+    fs.writeFileSync(path.join(dir, `${RULE_PREFIX}${skill.slug}${extension}`), render(skill), 'utf-8');
+  }
+}
+
+/**
+ * Remove all per-skill rule files from a directory (and the directories, if left empty)
+ */
+function removeRuleFiles(dir: string, extension: string, dryRun = false): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const removed: string[] = [];
+  for (const entry of fs.readdirSync(dir).sort()) {
+    if (entry.startsWith(RULE_PREFIX) && entry.endsWith(extension)) {
+      if (!dryRun) fs.unlinkSync(path.join(dir, entry));
+      removed.push(relativePath(path.join(dir, entry)));
+    }
+  }
+
+  if (!dryRun) removeEmptyDirs(dir);
+  return removed;
+}
+
+const claudeSkillsTarget: TargetAdapter = {
+  target: 'claude',
+  integration: 'claude_skills',
+  sync(skills) {
+    writeSystemSkill(META_SKILL_CONTENT);
+    writeIndex(skills.map((skill) => skill.meta));
+    syncClaudeNativeSkills(skills.map((skill) => skill.slug));
+  },
+  clean(dryRun) {
+    const claudeSkillsDir = getClaudeSkillsDir();
+    const removed = listClaudeNativeSkillLinks().map((link) => relativePath(path.join(claudeSkillsDir, link)));
+    for (const generated of [path.join(claudeSkillsDir, 'SKILLS_INDEX.md'), getSystemDir()]) {
+      if (fs.existsSync(generated)) {
+        removed.push(relativePath(generated));
+      }
+    }
+    if (dryRun) {
+      return removed;
+    }
+
+    syncClaudeNativeSkills([]);
+    fs.rmSync(path.join(claudeSkillsDir, 'SKILLS_INDEX.md'), { force: true });
+    fs.rmSync(getSystemDir(), { recursive: true, force: true });
+
+    // Skills may be installed into .claude/skills itself
+    if (path.resolve(claudeSkillsDir) !== path.resolve(getInstallPath())) {
+      removeEmptyDirs(claudeSkillsDir);
+    }
+    return removed;
+  },
+};
+
+const claudeMdTarget: TargetAdapter = {
+  target: 'claude',
+  integration: 'claude_md',
+  sync() {
+    upsertManagedSection(projectPath('CLAUDE.md'), indexSection());
+  },
+  clean(dryRun) {
+    return removeManagedSection(projectPath('CLAUDE.md'), dryRun);
+  },
+};
+
+const cursorTarget: TargetAdapter = {
+  target: 'cursor',
+  integration: 'cursor_rules',
+  sync(skills) {
+    const rulesDir = projectPath('.cursor', 'rules');
+
+    // Older versions wrote a single rule pointing at the index
+    const legacyRule = path.join(rulesDir, 'overskill.mdc');
+    if (fs.existsSync(legacyRule)) {
+      fs.unlinkSync(legacyRule);
+    }
+
+    syncRuleFiles(rulesDir, '.mdc', skills, (skill) =>
+      [
+        '---',
+        `description: ${JSON.stringify(skill.meta.description || skill.meta.name || skill.slug)}`,
+        'globs:',
+        'alwaysApply: false',
+        '---',
+        '',
+        generatedNote(skill),
+        '',
+        skill.body,
+      ].join('\n')
+    );
+  },
+  clean(dryRun) {
+    const rulesDir = projectPath('.cursor', 'rules');
+    const removed: string[] = [];
+    const legacyRule = path.join(rulesDir, 'overskill.mdc');
+    if (fs.existsSync(legacyRule)) {
+      if (!dryRun) fs.unlinkSync(legacyRule);
+      removed.push(relativePath(legacyRule));
+    }
+    return [...removed, ...removeRuleFiles(rulesDir, '.mdc', dryRun)];
+  },
+};
+
+const windsurfTarget: TargetAdapter = {
+  target: 'windsurf',
+  integration: 'windsurf_rules',
+  sync(skills) {
+    syncRuleFiles(projectPath('.windsurf', 'rules'), '.md', skills, (skill) =>
+      [
+        '---',
+        'trigger: model_decision',
+        `description: ${JSON.stringify(skill.meta.description || skill.meta.name || skill.slug)}`,
+        '---',
+        '',
+        generatedNote(skill),
+        '',
+        skill.body,
+      ].join('\n')
+    );
+  },
+  clean(dryRun) {
+    return removeRuleFiles(projectPath('.windsurf', 'rules'), '.md', dryRun);
+  },
+};
+
+/**
+ * Target that keeps a managed skills section in a single instructions file
+ */
+function sectionTarget(target: TargetName, integration: IntegrationName, ...file: string[]): TargetAdapter {
+  return {
+    target,
+    integration,
+    sync(skills) {
+      upsertManagedSection(projectPath(...file), skillsSection(skills));
+    },
+    clean(dryRun) {
+      return removeManagedSection(projectPath(...file), dryRun);
+    },
+  };
+}
+
+const ADAPTERS: TargetAdapter[] = [
+  claudeSkillsTarget,
+  claudeMdTarget,
+  cursorTarget,
+  sectionTarget('codex', 'agents_md', 'AGENTS.md'),
+  windsurfTarget,
+  sectionTarget('copilot', 'copilot_instructions', '.github', 'copilot-instructions.md'),
+  sectionTarget('gemini', 'gemini_md', 'GEMINI.md'),
+];
+
+/**
+ * Read installed skills for the adapters
+ */
+function readTargetSkills(config: SkillsConfig, slugs: string[]): TargetSkill[] {
+  const projectRoot = findProjectRoot() || process.cwd();
+  const skills: TargetSkill[] = [];
+
+  for (const slug of [...slugs].sort()) {
+    const meta = readSkillMeta(slug);
+    const content = readSkillContent(slug);
+    if (!meta || content === null) continue;
+
+    skills.push({
+      slug,
+      meta,
+      compat: getEffectiveCompat(config, slug, meta.compat || []),
+      body: (splitFrontmatter(content)?.body ?? content).trim() + '\n',
+      path: toPosix(path.relative(projectRoot, path.join(getSkillDir(slug), 'SKILL.md'))),
+    });
+  }
+
+  return skills;
+}
+
+/**
+ * Render installed skills into every enabled target and integration, and
+ * clean up disabled ones. Each target only gets the skills whose compat
+ * includes it.
+ *
+ * @param slugs Skills installed in the project
+ */
+export function syncTargets(config: SkillsConfig, slugs: string[]): TargetSyncResult {
+  const { targets, unknown } = getTargets(config);
+
+  // Claude loads everything in .claude/skills, so skills it isn't compatible
+  // with are moved out of it when that's the install path
+  for (const slug of slugs) {
+    const compat = getEffectiveCompat(config, slug, readSkillMeta(slug)?.compat || []);
+    setSkillUnlisted(slug, getDeliveryTargets(compat, ['claude']).length === 0);
+  }
+
+  const skills = readTargetSkills(config, slugs);
+
+  const synced = new Set<TargetName>();
+  for (const adapter of ADAPTERS) {
+    if (targets.includes(adapter.target) && isIntegrationEnabled(config, adapter.integration)) {
+      adapter.sync(skills.filter((skill) => getDeliveryTargets(skill.compat, [adapter.target]).length > 0));
+      synced.add(adapter.target);
+    } else {
+      adapter.clean();
+    }
+  }
+
+  return { synced: targets.filter((target) => synced.has(target)), unknown };
+}
+
+/**
+ * Re-render targets from the configured skills installed in the project
+ * (after skills are saved, renamed or removed outside of sync)
+ */
+export function refreshTargets(): TargetSyncResult {
+  const config = readConfig();
+  const slugs = config.skills.map((skill) => skill.slug).filter((slug) => skillExists(slug));
+  return syncTargets(config, slugs);
+}
+
+/**
+ * Remove every file and managed section written by any integration
+ *
+ * @param options.dryRun List what would be removed without changing anything
+ * @returns The paths removed or changed, relative to the project root
+ */
+export function removeIntegrations(options: { dryRun?: boolean } = {}): string[] {
+  return ADAPTERS.flatMap((adapter) => adapter.clean(options.dryRun));
+}
+
+/**
+ * Display label for a target, e.g. "Copilot"
+ */
+export function getTargetLabel(name: TargetName): string {
+  return TARGET_LABELS[name] ?? name;
+}
+
@@ -0,0 +1,392 @@
+/**
+ * Skill templates used by `skill new --template`
+ *
+ * A template is a directory in ~/.overskill/templates/<name>/ holding a
+ * SKILL.md scaffold, an optional template.yaml (description and variables)
+ * and any supporting files to copy into new skills. Skills in the local
+ * registry tagged `template` can be used as templates too.
+ *
+ * Placeholders are written `{{variable}}`. `slug`, `name` and `description`
+ * are always available; any other placeholder is a custom variable.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { getConfigPath } from './auth.js';
+import * as localRegistry from './local-registry/index.js';
+import { splitFrontmatter } from './frontmatter.js';
+import { applyMetadataToContent } from './metadata.js';
+import { collectSkillFiles, writeSkillFiles, isBinary } from './skill-files.js';
+import type { SkillFiles } from './skill-files.js';
+
+/**
+ * Template used by `skill new` when none is given
+ */
+export const DEFAULT_TEMPLATE = 'default';
+
+/**
+ * Tag that makes a local registry skill available as a template
+ */
+export const TEMPLATE_TAG = 'template';
+
+/**
+ * Variables every template can use without declaring them
+ */
+export const BUILTIN_VARIABLES = ['slug', 'name', 'description'];
+
+const DEFAULT_CONTENT = `# {{name}}
+
+## Instructions
+
+<!-- Add your skill instructions here -->
+
+## Examples
+
+<!-- Add examples of how to use this skill -->
+`;
+
+const TEMPLATE_FILE = 'template.yaml';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+// A frontmatter line whose whole value is one placeholder, e.g. `description: {{description}}`
+const FRONTMATTER_VALUE_PATTERN = /^(\s*[\w-]+:[ \t]*)(["']?)\{\{\s*([A-Za-z_][\w-]*)\s*\}\}\2[ \t]*$/gm;
+
+const VERSION_COMMENT_PATTERN = /\n*<!--\s*version:\s*[^\s]+\s*-->\s*$/;
+
+/**
+ * A variable a template can be filled in with
+ */
+export interface TemplateVariable {
+  name: string;
+  description?: string;
+  default?: string;
+  required: boolean;
+}
+
+/**
+ * A template and where it was found
+ */
+export interface SkillTemplate {
+  name: string;
+  description?: string;
+  source: 'templates' | 'registry' | 'builtin';
+  path?: string; // Template directory (or registry skill directory)
+  content: string; // SKILL.md scaffold
+  files: SkillFiles; // Supporting files to copy
+  variables: TemplateVariable[]; // Custom variables (not including the built-in ones)
+}
+
+/**
+ * template.yaml
+ */
+interface TemplateConfig {
+  description?: string;
+  variables?: Record<string, { description?: string; default?: string | number | boolean; required?: boolean } | null>;
+}
+
+/**
+ * Get the templates directory (~/.overskill/templates/)
+ */
+export function getTemplatesDir(): string {
+  return path.join(path.dirname(getConfigPath()), 'templates');
+}
+
+/**
+ * Get the directory for a template
+ */
+export function getTemplateDir(name: string): string {
+  return path.join(getTemplatesDir(), name);
+}
+
+/**
+ * Check if a template name is valid (same rules as skill slugs)
+ */
+export function isValidTemplateName(name: string): boolean {
+  return /^[a-z0-9-]+$/.test(name);
+}
+
+/**
+ * Find the placeholder names used in text, in order of first use
+ */
+export function findPlaceholders(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Find the placeholders used in a template's SKILL.md and text supporting files
+ */
+function findTemplatePlaceholders(content: string, files: SkillFiles): string[] {
+  const texts = [content, ...Object.values(files).filter((f) => !isBinary(f)).map((f) => f.toString('utf-8'))];
+  return [...new Set(texts.flatMap(findPlaceholders))];
+}
+
+/**
+ * Build the variable list: declared variables first, then undeclared
+ * placeholders (which are required)
+ */
+function buildVariables(config: TemplateConfig, placeholders: string[]): TemplateVariable[] {
+  const variables: TemplateVariable[] = [];
+
+  for (const [name, spec] of Object.entries(config.variables || {})) {
+    if (BUILTIN_VARIABLES.includes(name)) continue;
+    const defaultValue = spec?.default !== undefined ? String(spec.default) : undefined;
+    variables.push({
+      name,
+      ...(spec?.description ? { description: spec.description } : {}),
+      ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+      required: spec?.required ?? defaultValue === undefined,
+    });
+  }
+
+  for (const name of placeholders) {
+    if (BUILTIN_VARIABLES.includes(name) || variables.some((v) => v.name === name)) continue;
+    variables.push({ name, required: true });
+  }
+
+  return variables;
+}
+
+/**
+ * Read a template from the templates directory
+ */
+function readTemplateDir(name: string): SkillTemplate | null {
+  const dir = getTemplateDir(name);
+  const skillPath = path.join(dir, 'SKILL.md');
+  if (!fs.existsSync(skillPath)) {
+    return null;
+  }
+
+  const templatePath = path.join(dir, TEMPLATE_FILE);
+  let config: TemplateConfig = {};
+  if (fs.existsSync(templatePath)) {
+    try {
+      config = (yaml.parse(fs.readFileSync(templatePath, 'utf-8')) || {}) as TemplateConfig;
+    } catch (error) {
+      throw new Error(`Invalid ${TEMPLATE_FILE} in template '${name}': ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const content = fs.readFileSync(skillPath, 'utf-8');
+  const files = collectSkillFiles(dir);
+  delete files[TEMPLATE_FILE];
+
+  return {
+    name,
+    ...(config.description ? { description: config.description } : {}),
+    source: 'templates',
+    path: dir,
+    content,
+    files,
+    variables: buildVariables(config, findTemplatePlaceholders(content, files)),
+  };
+}
+
+/**
+ * Read a local registry skill tagged as a template
+ */
+function readRegistryTemplate(slug: string): SkillTemplate | null {
+  const meta = localRegistry.skillExists(slug) ? localRegistry.readMeta(slug) : null;
+  const skill = meta?.tags?.includes(TEMPLATE_TAG) ? localRegistry.getSkill(slug) : null;
+  if (!skill) {
+    return null;
+  }
+
+  return {
+    name: slug,
+    ...(skill.meta.description ? { description: skill.meta.description } : {}),
+    source: 'registry',
+    path: localRegistry.getSkillDir(slug),
+    // New skills start at their own version
+    content: skill.content.replace(VERSION_COMMENT_PATTERN, '\n'),
+    files: skill.files,
+    variables: buildVariables({}, findTemplatePlaceholders(skill.content, skill.files)),
+  };
+}
+
+/**
+ * The built-in default template
+ */
+function builtinTemplate(): SkillTemplate {
+  return {
+    name: DEFAULT_TEMPLATE,
+    description: 'Instructions and examples sections',
+    source: 'builtin',
+    content: DEFAULT_CONTENT,
+    files: {},
+    variables: [],
+  };
+}
+
+/**
+ * Get a template by name: from the templates directory, then the local
+ * registry (skills tagged `template`), then the built-in default
+ *
+ * @returns The template, or null if not found
+ */
+export function getTemplate(name: string): SkillTemplate | null {
+  return (
+    readTemplateDir(name) ??
+    readRegistryTemplate(name) ??
+    (name === DEFAULT_TEMPLATE ? builtinTemplate() : null)
+  );
+}
+
+/**
+ * List all available templates, sorted by name. A template in the templates
+ * directory hides a registry template or built-in with the same name.
+ */
+export function listTemplates(): SkillTemplate[] {
+  const templates = new Map<string, SkillTemplate>();
+
+  for (const skill of localRegistry.listSkills()) {
+    const template = readRegistryTemplate(skill.slug);
+    if (template) templates.set(template.name, template);
+  }
+
+  if (!templates.has(DEFAULT_TEMPLATE)) {
+    templates.set(DEFAULT_TEMPLATE, builtinTemplate());
+  }
+
+  const dir = getTemplatesDir();
+  if (fs.existsSync(dir)) {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const template = readTemplateDir(entry.name);
+      if (template) templates.set(template.name, template);
+    }
+  }
+
+  return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Write a template to the templates directory
+ */
+export function createTemplate(
+  name: string,
+  params: { description?: string; content: string; files?: SkillFiles; variables?: TemplateVariable[] }
+): string {
+  const dir = getTemplateDir(name);
+  fs.mkdirSync(dir, { recursive: true });
+
+  fs.writeFileSync(path.join(dir, 'SKILL.md'), params.content, 'utf-8');
+  writeSkillFiles(dir, params.files || {});
+
+  const config: TemplateConfig = {};
+  if (params.description) {
+    config.description = params.description;
+  }
+  if (params.variables && params.variables.length > 0) {
+    config.variables = {};
+    for (const variable of params.variables) {
+      config.variables[variable.name] = {
+        ...(variable.description ? { description: variable.description } : {}),
+        ...(variable.default !== undefined ? { default: variable.default } : {}),
+        // Only written when it differs from the implied default (required unless there's a default)
+        ...(variable.required !== (variable.default === undefined) ? { required: variable.required } : {}),
+      };
+    }
+  }
+  fs.writeFileSync(path.join(dir, TEMPLATE_FILE), yaml.stringify(config, { lineWidth: 0 }), 'utf-8');
+
+  return dir;
+}
+
+/**
+ * Delete a template from the templates directory
+ *
+ * @returns Whether the template existed
+ */
+export function deleteTemplate(name: string): boolean {
+  const dir = getTemplateDir(name);
+  if (!fs.existsSync(path.join(dir, 'SKILL.md'))) {
+    return false;
+  }
+  fs.rmSync(dir, { recursive: true, force: true });
+  return true;
+}
+
+/**
+ * Fill in default values and list the required variables still missing
+ *
+ * @returns The values with defaults applied, and the variables that need a value
+ */
+export function resolveVariables(
+  template: SkillTemplate,
+  values: Record<string, string>
+): { values: Record<string, string>; missing: TemplateVariable[] } {
+  const resolved = { ...values };
+  const missing: TemplateVariable[] = [];
+
+  for (const variable of template.variables) {
+    if (resolved[variable.name] !== undefined) continue;
+    if (variable.default !== undefined) {
+      resolved[variable.name] = variable.default;
+    } else if (variable.required) {
+      missing.push(variable);
+    } else {
+      resolved[variable.name] = '';
+    }
+  }
+
+  return { values: resolved, missing };
+}
+
+/**
+ * Replace placeholders in text. Placeholders without a value are left as is.
+ */
+export function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Write a value as a single-line YAML scalar, quoting it only when needed
+ */
+function toYamlScalar(value: string): string {
+  const scalar = yaml.stringify(value, { lineWidth: 0 }).trimEnd();
+  return scalar.includes('\n') ? JSON.stringify(value) : scalar;
+}
+
+/**
+ * Render a template's SKILL.md and text supporting files. In the frontmatter,
+ * a placeholder that makes up a whole value is written as a quoted string so
+ * values containing `:` or quotes stay valid YAML.
+ */
+export function renderTemplate(
+  template: SkillTemplate,
+  values: Record<string, string>
+): { content: string; files: SkillFiles } {
+  const files: SkillFiles = {};
+  for (const [relativePath, file] of Object.entries(template.files)) {
+    files[relativePath] = isBinary(file) ? file : Buffer.from(substitute(file.toString('utf-8'), values), 'utf-8');
+  }
+
+  const block = splitFrontmatter(template.content);
+  if (!block) {
+    return { content: substitute(template.content, values), files };
+  }
+
+  const frontmatter = block.yaml.replace(FRONTMATTER_VALUE_PATTERN, (line, prefix: string, _quote, name: string) =>
+    values[name] !== undefined ? `${prefix}${toYamlScalar(values[name])}` : line
+  );
+  const content = `---\n${substitute(frontmatter, values)}\n---\n${substitute(block.body, values)}`;
+  return { content, files };
+}
+
+/**
+ * Turn a skill's SKILL.md into template content: its name and description
+ * become placeholders and its version comment is dropped
+ */
+export function templateContentFromSkill(content: string): string {
+  const withoutVersion = content.replace(VERSION_COMMENT_PATTERN, '\n');
+  return applyMetadataToContent(withoutVersion, { name: '{{name}}', description: '{{description}}' });
+}
+
+/**
+ * SKILL.md for a new, empty template
+ */
+export function scaffoldTemplateContent(): string {
+  return `---\nname: {{name}}\ndescription: {{description}}\n---\n\n${DEFAULT_CONTENT}`;
+}
@@ -3,6 +3,35 @@ export interface SkillsConfig {
   sources: SkillSource[];
   install_path: string;
   skills: SkillEntry[];
+  lint?: LintConfig;
+  targets?: TargetName[]; // Agents to install skills for (default: claude, cursor, codex)
+  integrations?: IntegrationsConfig; // Agent files sync may write (default: all)
+  packs?: PackEntry[]; // Packs added with `skill add pack:<name>`
+}
+
+// Agents whose native formats skills are rendered into during sync
+export type TargetName = 'claude' | 'cursor' | 'codex' | 'windsurf' | 'copilot' | 'gemini';
+
+// Agent files written by sync, each of which can be switched off
+export type IntegrationName =
+  | 'claude_skills' // .claude/skills links, SKILLS_INDEX.md and the _system skill
+  | 'claude_md' // Managed section in CLAUDE.md
+  | 'agents_md' // Managed section in AGENTS.md
+  | 'cursor_rules' // .cursor/rules/overskill-*.mdc
+  | 'windsurf_rules' // .windsurf/rules/overskill-*.md
+  | 'copilot_instructions' // Managed section in .github/copilot-instructions.md
+  | 'gemini_md'; // Managed section in GEMINI.md
+
+export type IntegrationsConfig = Partial<Record<IntegrationName, boolean>>;
+
+// Linter settings (`lint:` in .skills.yaml)
+export type LintLevel = 'error' | 'warn' | 'off';
+
+export interface LintConfig {
+  rules?: Record<string, LintLevel>; // Rule id → level, overriding the rule's default
+  tags?: string[]; // Known tags (the known-tags rule is skipped when unset)
+  compat?: string[]; // Known compat values, in addition to the built-in list
+  max_tokens?: number; // Token estimate above which a skill is oversized
 }
 
 // Tagged union for source types
@@ -39,6 +68,44 @@ export function isCloudSource(source: SkillSource): source is CloudSource {
 export interface SkillEntry {
   slug: string;
   source?: string; // Optional, defaults to first local source
+  version?: string; // Optional semver constraint (e.g. "^2.1.0"), defaults to latest
+  compat?: string[]; // Optional override of the skill's compat in this project
+  dependency?: boolean; // Added because another skill requires it, rather than directly
+  pack?: string; // Pack the entry was added from
+}
+
+// A pack added to a project, so `skill pack update` can pick up changes to it
+export interface PackEntry {
+  name: string;
+  source?: string; // Optional, defaults to first local source
+}
+
+// Skill packs: named sets of skills added to a project together
+export interface SkillPack {
+  name: string;
+  description?: string;
+  skills: PackSkill[];
+}
+
+export interface PackSkill {
+  slug: string;
+  version?: string; // Optional semver constraint for the skill
+}
+
+// Lockfile types (.skills.lock)
+export interface SkillsLock {
+  lockfile_version: number;
+  skills: LockedSkill[];
+}
+
+export interface LockedSkill {
+  slug: string;
+  source: string;
+  version?: string; // Resolved version, when the content declares one
+  sha256: string;
+  files?: Record<string, string>; // Supporting files (path → sha256), if any
+  includes?: Record<string, string>; // Skills composed into the content (slug → sha256), if any
+  override?: string; // sha256 of the project override applied to the content, if any
 }
 
 // Skill metadata (meta.yaml in each skill folder)
@@ -49,6 +116,10 @@ export interface SkillMeta {
   tags: string[];
   compat: string[];
   sha256: string;
+  files?: Record<string, string>; // Supporting files (path → sha256), if any
+  includes?: Record<string, string>; // Skills composed into SKILL.md (slug → sha256), if any
+  override?: string; // sha256 of the project override applied to SKILL.md, if any
+  override_base?: string; // sha256 of the content the override was applied to
 }
 
 // API response types
@@ -102,6 +173,7 @@ export interface SyncSkillResponse {
   slug: string;
   content: string;
   sha256: string;
+  version?: string;
 }
 
 export interface SyncResponse {